@@ -0,0 +1,38 @@
+import type { AssetClass, AssetUniverse, RiskProfiles } from './types';
+
+export const ASSET_CLASSES: readonly AssetClass[] = ['stocks', 'bonds', 'alternatives', 'cash'];
+
+// ETFs load on their asset class factor with this correlation, so the security-level matrix stays PSD
+export const INTRA_CLASS_CORRELATION = 0.8;
+
+export const RISK_PROFILES: RiskProfiles = {
+  low: { stocks: 30, bonds: 60, alternatives: 5, cash: 5, maxRisk: 0.08, targetReturn: 0.05 },
+  medium: { stocks: 60, bonds: 30, alternatives: 8, cash: 2, maxRisk: 0.12, targetReturn: 0.08 },
+  high: { stocks: 80, bonds: 15, alternatives: 5, cash: 0, maxRisk: 0.18, targetReturn: 0.12 }
+};
+
+// ETFs recommended for each asset class; their return and risk come from the capital market assumptions
+export const ASSET_UNIVERSE: AssetUniverse = {
+  stocks: [
+    { symbol: 'VTI', name: 'Total Stock Market ETF', price: 300, category: 'US Equity', taxEfficiency: 'efficient', expenseRatio: 0.0003 },
+    { symbol: 'VXUS', name: 'International Stocks ETF', price: 68, category: 'International', taxEfficiency: 'efficient', expenseRatio: 0.0005 },
+    { symbol: 'QQQ', name: 'Nasdaq 100 ETF', price: 560, category: 'Growth', taxEfficiency: 'efficient', expenseRatio: 0.002 },
+    { symbol: 'VTV', name: 'Value Stocks ETF', price: 180, category: 'Value', taxEfficiency: 'efficient', expenseRatio: 0.0004 }
+  ],
+  bonds: [
+    { symbol: 'BND', name: 'Total Bond Market ETF', price: 73, category: 'Government', taxEfficiency: 'inefficient', expenseRatio: 0.0003 },
+    { symbol: 'VTEB', name: 'Tax-Exempt Bond ETF', price: 50, category: 'Municipal', taxEfficiency: 'exempt', expenseRatio: 0.0003 },
+    { symbol: 'SCHZ', name: 'Treasury ETF', price: 23, category: 'Treasury', taxEfficiency: 'inefficient', expenseRatio: 0.0003 }
+  ],
+  alternatives: [
+    { symbol: 'VNQ', name: 'Real Estate ETF', price: 90, category: 'REITs', taxEfficiency: 'inefficient', expenseRatio: 0.0013 },
+    { symbol: 'IAU', name: 'Gold ETF', price: 62, category: 'Commodities', taxEfficiency: 'inefficient', expenseRatio: 0.0025 },
+    { symbol: 'DBC', name: 'Commodities ETF', price: 22, category: 'Commodities', taxEfficiency: 'inefficient', expenseRatio: 0.0087 }
+  ]
+};
+
+export const tickersOf = (universe: AssetUniverse): Record<Exclude<AssetClass, 'cash'>, string[]> => ({
+  stocks: universe.stocks.map(asset => asset.symbol),
+  bonds: universe.bonds.map(asset => asset.symbol),
+  alternatives: universe.alternatives.map(asset => asset.symbol)
+});
@@ -0,0 +1,92 @@
+import { ASSET_CLASSES } from './assumptions';
+import { securityAssumption } from './cma';
+import type { Allocation, AssetClass, AssetUniverse, CapitalMarketAssumptions, SecurityWeight } from './types';
+
+export interface Benchmark {
+  id: string;
+  name: string;
+  allocation: Allocation;
+}
+
+export const BENCHMARKS: Benchmark[] = [
+  { id: '60-40', name: '60/40 stocks/bonds', allocation: { stocks: 60, bonds: 40, alternatives: 0, cash: 0 } },
+  { id: '80-20', name: '80/20 stocks/bonds', allocation: { stocks: 80, bonds: 20, alternatives: 0, cash: 0 } },
+  { id: '40-60', name: '40/60 stocks/bonds', allocation: { stocks: 40, bonds: 60, alternatives: 0, cash: 0 } },
+  { id: 'all-stocks', name: '100% stocks', allocation: { stocks: 100, bonds: 0, alternatives: 0, cash: 0 } }
+];
+
+export interface ClassAttribution {
+  assetClass: AssetClass;
+  portfolioWeight: number;
+  benchmarkWeight: number;
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  allocation: number;
+  selection: number;
+  interaction: number;
+}
+
+export interface Attribution {
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  activeReturn: number;
+  allocation: number;
+  selection: number;
+  interaction: number;
+  byClass: ClassAttribution[];
+}
+
+export interface AttributionInput {
+  // Fund weights of the portfolio as fractions, with cash under 'cash'
+  securityWeights: SecurityWeight[];
+  benchmark: Allocation;
+  assumptions: CapitalMarketAssumptions;
+  universe: AssetUniverse;
+}
+
+// Brinson-Fachler attribution of the expected active return against a benchmark that holds each
+// asset class at its index return. Allocation is the return from over- or underweighting classes
+// that beat or trail the benchmark; selection is the fund choice within each class, net of fund
+// expense ratios; interaction is the cross term, so the three add up to the active return.
+export const brinsonAttribution = ({ securityWeights, benchmark, assumptions, universe }: AttributionInput): Attribution => {
+  const benchmarkTotal = ASSET_CLASSES.reduce((sum, asset) => sum + benchmark[asset], 0) || 1;
+  const benchmarkReturn = ASSET_CLASSES.reduce((sum, asset) => sum + (benchmark[asset] / benchmarkTotal) * assumptions.returns[asset], 0);
+
+  const byClass = ASSET_CLASSES.map((assetClass): ClassAttribution => {
+    const held = securityWeights.filter(item => item.assetClass === assetClass);
+    const portfolioWeight = held.reduce((sum, item) => sum + item.weight, 0);
+    const benchmarkWeight = benchmark[assetClass] / benchmarkTotal;
+    const indexReturn = assumptions.returns[assetClass];
+    const netReturn = (item: SecurityWeight) => {
+      if (assetClass === 'cash') return indexReturn;
+      const expenseRatio = universe[assetClass].find(fund => fund.symbol === item.id)?.expenseRatio ?? 0;
+      return securityAssumption(assumptions, item.id, assetClass).expectedReturn - expenseRatio;
+    };
+    // A class the portfolio does not hold earns its index return, so it adds no selection effect
+    const portfolioReturn = Math.abs(portfolioWeight) > 1e-12
+      ? held.reduce((sum, item) => sum + item.weight * netReturn(item), 0) / portfolioWeight
+      : indexReturn;
+    return {
+      assetClass,
+      portfolioWeight,
+      benchmarkWeight,
+      portfolioReturn,
+      benchmarkReturn: indexReturn,
+      allocation: (portfolioWeight - benchmarkWeight) * (indexReturn - benchmarkReturn),
+      selection: benchmarkWeight * (portfolioReturn - indexReturn),
+      interaction: (portfolioWeight - benchmarkWeight) * (portfolioReturn - indexReturn)
+    };
+  });
+
+  const total = (key: 'allocation' | 'selection' | 'interaction') => byClass.reduce((sum, item) => sum + item[key], 0);
+  const portfolioReturn = byClass.reduce((sum, item) => sum + item.portfolioWeight * item.portfolioReturn, 0);
+  return {
+    portfolioReturn,
+    benchmarkReturn,
+    activeReturn: portfolioReturn - benchmarkReturn,
+    allocation: total('allocation'),
+    selection: total('selection'),
+    interaction: total('interaction'),
+    byClass
+  };
+};
@@ -0,0 +1,168 @@
+import { ASSET_CLASSES } from './assumptions';
+import { splitCsvLine } from './csv';
+import type { Allocation, RebalanceFrequency, SecurityWeight, TickersByClass } from './types';
+
+// Months between calendar rebalances
+export const REBALANCE_INTERVALS: Record<RebalanceFrequency, number> = { monthly: 1, quarterly: 3, annually: 12, never: Infinity };
+
+// One month of decimal returns keyed by ticker, e.g. { month: '2020-03', VTI: -0.13, BND: -0.006 }
+export interface ReturnRow {
+  month: string;
+  [ticker: string]: string | number;
+}
+
+export interface ParsedReturns {
+  rows: ReturnRow[];
+  errors: string[];
+}
+
+// Parses "month,VTI,BND,..." rows; values are decimals or percentages with a trailing %
+export const parseReturnsCsv = (text: string): ParsedReturns => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length < 2) {
+    return { rows: [], errors: ['The file needs a header row and at least one month of returns'] };
+  }
+
+  const tickers = splitCsvLine(lines[0]).slice(1).map(cell => cell.toUpperCase());
+  const errors: string[] = [];
+  const rows: ReturnRow[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const month = cells[0].slice(0, 7);
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      errors.push(`Row ${index + 2}: "${cells[0]}" is not a YYYY-MM month`);
+      return;
+    }
+    const row: ReturnRow = { month };
+    const rowErrors: string[] = [];
+    tickers.forEach((ticker, k) => {
+      const cell = cells[k + 1] ?? '';
+      const value = cell.endsWith('%') ? Number(cell.slice(0, -1)) / 100 : Number(cell);
+      if (cell === '' || !Number.isFinite(value)) rowErrors.push(`${ticker} "${cell}"`);
+      else row[ticker] = value;
+    });
+    if (rowErrors.length > 0) errors.push(`Row ${index + 2} (${month}): invalid ${rowErrors.join(', ')}`);
+    else rows.push(row);
+  });
+
+  rows.sort((a, b) => a.month.localeCompare(b.month));
+  const monthIndex = (month: string) => Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7));
+  rows.forEach((row, i) => {
+    if (i === 0) return;
+    const step = monthIndex(row.month) - monthIndex(rows[i - 1].month);
+    if (step === 0) errors.push(`${row.month} appears more than once`);
+    else if (step > 1) errors.push(`Months between ${rows[i - 1].month} and ${row.month} are missing`);
+  });
+  return { rows, errors };
+};
+
+export interface TickerWeights {
+  weights: Record<string, number>;
+  unmapped: string[];
+}
+
+// Spreads asset-class percentages over the tickers that have history; classes without data go to cash
+export const toTickerWeights = (
+  allocation: Allocation,
+  tickersByClass: TickersByClass,
+  availableTickers: string[],
+  securityWeights: SecurityWeight[] = []
+): TickerWeights => {
+  const weights: Record<string, number> = { cash: 0 };
+  const unmapped: string[] = [];
+  const total = ASSET_CLASSES.reduce((sum, asset) => sum + allocation[asset], 0) || 1;
+
+  ASSET_CLASSES.forEach(assetClass => {
+    const classWeight = allocation[assetClass] / total;
+    if (assetClass === 'cash') {
+      weights.cash += classWeight;
+      return;
+    }
+    const tickers = (tickersByClass[assetClass] || []).filter(ticker => availableTickers.includes(ticker));
+    if (tickers.length === 0) {
+      if (classWeight > 0) unmapped.push(assetClass);
+      weights.cash += classWeight;
+      return;
+    }
+    // Prefer the optimizer's security split when there is one, otherwise equal-weight the class
+    const split = tickers.map(ticker => securityWeights.find(s => s.id === ticker)?.weight ?? 0);
+    const splitTotal = split.reduce((sum, w) => sum + w, 0);
+    tickers.forEach((ticker, i) => {
+      weights[ticker] = classWeight * (splitTotal > 0 ? split[i] / splitTotal : 1 / tickers.length);
+    });
+  });
+  return { weights, unmapped };
+};
+
+export interface BacktestInput {
+  rows: ReturnRow[];
+  weights: Record<string, number>;
+  rebalanceFreq: RebalanceFrequency;
+  initialValue: number;
+  cashReturn: number;
+  riskFreeRate: number;
+}
+
+export interface BacktestResult {
+  series: { month: string; value: number }[];
+  monthlyReturns: number[];
+  cagr: number;
+  volatility: number;
+  maxDrawdown: number;
+  sortino: number;
+  calendarYears: { year: string; return: number; partial: boolean }[];
+}
+
+// Replays monthly returns, rebalancing back to the target weights at calendar month-ends
+export const runBacktest = ({ rows, weights, rebalanceFreq, initialValue, cashReturn, riskFreeRate }: BacktestInput): BacktestResult => {
+  const interval = REBALANCE_INTERVALS[rebalanceFreq] ?? 3;
+  const ids = Object.keys(weights);
+  const rebalance = (value: number): Record<string, number> => Object.fromEntries(ids.map(id => [id, value * weights[id]]));
+  const totalOf = (holdings: Record<string, number>) => ids.reduce((sum, id) => sum + holdings[id], 0);
+
+  let holdings = rebalance(initialValue);
+  let peak = initialValue;
+  let maxDrawdown = 0;
+  const series: BacktestResult['series'] = [];
+  const monthlyReturns: number[] = [];
+
+  rows.forEach(row => {
+    const start = totalOf(holdings);
+    ids.forEach(id => { holdings[id] *= 1 + (id === 'cash' ? cashReturn / 12 : Number(row[id])); });
+    const end = totalOf(holdings);
+    monthlyReturns.push(end / start - 1);
+    peak = Math.max(peak, end);
+    maxDrawdown = Math.max(maxDrawdown, 1 - end / peak);
+    series.push({ month: row.month, value: Math.round(end) });
+    if (Number(row.month.slice(5, 7)) % interval === 0) holdings = rebalance(end);
+  });
+
+  const months = monthlyReturns.length;
+  const finalValue = series[months - 1]?.value ?? initialValue;
+  const mean = monthlyReturns.reduce((sum, r) => sum + r, 0) / (months || 1);
+  const variance = monthlyReturns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / Math.max(1, months - 1);
+  const monthlyRiskFree = riskFreeRate / 12;
+  const downside = Math.sqrt(monthlyReturns.reduce((sum, r) => sum + Math.pow(Math.min(0, r - monthlyRiskFree), 2), 0) / (months || 1));
+
+  const calendarYears: { year: string; growth: number; months: number }[] = [];
+  monthlyReturns.forEach((r, i) => {
+    const year = rows[i].month.slice(0, 4);
+    const last = calendarYears[calendarYears.length - 1];
+    if (last && last.year === year) {
+      last.growth *= 1 + r;
+      last.months += 1;
+    } else {
+      calendarYears.push({ year, growth: 1 + r, months: 1 });
+    }
+  });
+
+  return {
+    series,
+    monthlyReturns,
+    cagr: months > 0 ? Math.pow(finalValue / initialValue, 12 / months) - 1 : 0,
+    volatility: Math.sqrt(variance * 12),
+    maxDrawdown,
+    sortino: downside > 0 ? ((mean - monthlyRiskFree) * 12) / (downside * Math.sqrt(12)) : 0,
+    calendarYears: calendarYears.map(({ year, growth, months: count }) => ({ year, return: growth - 1, partial: count < 12 }))
+  };
+};
@@ -0,0 +1,98 @@
+import { bisect } from './matrix';
+
+export interface PlannedGoal {
+  id?: number;
+  name: string;
+  year: number;
+  amount: number;
+}
+
+export interface WithdrawalPlan {
+  amount: number;
+  startYear: number;
+}
+
+export interface CashFlow {
+  year: number;
+  contribution: number;
+  withdrawal: number;
+  goals: PlannedGoal[];
+}
+
+export interface FundedGoal extends PlannedGoal {
+  funded: number;
+  fullyFunded: boolean;
+}
+
+export interface CashFlowProjection {
+  values: number[];
+  goalStatus: FundedGoal[];
+  withdrawalShortfall: number;
+  depletedYear: number | null;
+}
+
+export type RequiredRate =
+  | { status: 'none' | 'unreachable'; rate: null }
+  | { status: 'ok'; rate: number };
+
+// Nominal end-of-year flows; amounts are entered in today's dollars and grow with inflation
+export const buildCashFlowSchedule = ({ years, contribution, withdrawal, goals, inflation }: {
+  years: number;
+  contribution: number;
+  withdrawal: WithdrawalPlan;
+  goals: PlannedGoal[];
+  inflation: number;
+}): CashFlow[] =>
+  Array.from({ length: years + 1 }, (_, year) => {
+    const inflator = Math.pow(1 + inflation, year);
+    return {
+      year,
+      contribution: year > 0 ? contribution * inflator : 0,
+      withdrawal: year > 0 && withdrawal.amount > 0 && year >= withdrawal.startYear ? withdrawal.amount * inflator : 0,
+      goals: goals.filter(goal => year > 0 && goal.year === year).map(goal => ({ ...goal, amount: goal.amount * inflator }))
+    };
+  });
+
+export const netCashFlows = (schedule: CashFlow[]): number[] => schedule.map(flow =>
+  flow.contribution - flow.withdrawal - flow.goals.reduce((sum, goal) => sum + goal.amount, 0));
+
+// Deterministic projection; withdrawals and then goals are paid from whatever balance is left
+export const projectCashFlows = ({ initialValue, growth, schedule }: { initialValue: number; growth: number; schedule: CashFlow[] }): CashFlowProjection => {
+  let value = initialValue;
+  let withdrawalShortfall = 0;
+  let depletedYear: number | null = null;
+  const values = [initialValue];
+  const goalStatus: FundedGoal[] = [];
+
+  schedule.slice(1).forEach(flow => {
+    value = value * (1 + growth) + flow.contribution;
+    const withdrawn = Math.min(value, flow.withdrawal);
+    value -= withdrawn;
+    withdrawalShortfall += flow.withdrawal - withdrawn;
+    flow.goals.forEach(goal => {
+      const funded = Math.min(value, goal.amount);
+      value -= funded;
+      goalStatus.push({ ...goal, funded, fullyFunded: funded >= goal.amount - 0.5 });
+    });
+    if (value <= 0.5 && depletedYear === null && (flow.withdrawal > 0 || flow.goals.length > 0)) depletedYear = flow.year;
+    values.push(value);
+  });
+
+  return { values, goalStatus, withdrawalShortfall, depletedYear };
+};
+
+const MIN_REQUIRED_RATE = -0.05;
+const MAX_REQUIRED_RATE = 0.25;
+
+// Lowest annual growth rate that funds every withdrawal and goal in full
+export const requiredGrowthRate = ({ initialValue, schedule }: { initialValue: number; schedule: CashFlow[] }): RequiredRate => {
+  if (!schedule.some(flow => flow.withdrawal > 0 || flow.goals.length > 0)) return { status: 'none', rate: null };
+  const funded = (rate: number) => {
+    const plan = projectCashFlows({ initialValue, growth: rate, schedule });
+    return plan.withdrawalShortfall < 0.5 && plan.goalStatus.every(goal => goal.fullyFunded);
+  };
+  if (!funded(MAX_REQUIRED_RATE)) return { status: 'unreachable', rate: null };
+  if (funded(MIN_REQUIRED_RATE)) return { status: 'ok', rate: MIN_REQUIRED_RATE };
+  // Nudge up off the boundary so the returned rate is always on the funded side
+  return { status: 'ok', rate: bisect(rate => (funded(rate) ? -1 : 1), MIN_REQUIRED_RATE, MAX_REQUIRED_RATE, 40) + 1e-6 };
+};
@@ -0,0 +1,44 @@
+// Headless entry point: reads a JSON scenario (see Scenario in scenario.ts) from a file or stdin
+// and prints the optimized allocation and metrics as JSON.
+//
+//   npx tsx finance/cli.ts scenario.json
+//   cat scenario.json | npx tsx finance/cli.ts
+//   npx tsx finance/cli.ts scenario.json --assumptions my_assumptions.json
+import { readFileSync } from 'node:fs';
+import { parseScenario, runScenario } from './scenario';
+import { loadAssumptions } from './cma';
+
+const USAGE = 'Usage: tsx finance/cli.ts [scenario.json] [--assumptions assumptions.json]  (reads stdin when no file is given)';
+
+const main = (args: string[]) => {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+  const flag = args.indexOf('--assumptions');
+  if (flag >= 0 && !args[flag + 1]) throw new Error('--assumptions needs a file path');
+  const files = flag >= 0 ? args.filter((_, i) => i !== flag && i !== flag + 1) : args;
+  const scenario = parseScenario(JSON.parse(readFileSync(files[0] ?? 0, 'utf8')));
+  if (flag >= 0) scenario.assumptions = loadAssumptions(JSON.parse(readFileSync(args[flag + 1], 'utf8')));
+  const result = runScenario(scenario);
+  console.log(JSON.stringify({
+    profile: result.profile,
+    allocation: result.optimized.allocation,
+    securities: result.optimized.securities.map(({ symbol, assetClass, weight }) => ({ symbol, assetClass, weight })),
+    metrics: result.optimized.metrics,
+    note: result.optimized.note,
+    conflicts: result.optimized.conflicts,
+    current: result.current,
+    fees: result.fees,
+    requiredReturn: result.requiredReturn,
+    projection: result.projection
+  }, null, 2));
+};
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exitCode = 1;
+}
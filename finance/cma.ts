@@ -0,0 +1,262 @@
+import houseView from '../data/capital_market_assumptions.json';
+import { ASSET_CLASSES } from './assumptions';
+import type { ReturnRow } from './backtest';
+import { splitCsvLine, toIsoDate } from './csv';
+import { CASH_SYMBOLS } from './holdings';
+import { validateCorrelationMatrix } from './matrix';
+import type {
+  Allocation, AssetClass, AssetRecommendation, AssetUniverse, CapitalMarketAssumptions, Matrix, ReturnRisk, TickersByClass
+} from './types';
+
+// Capital market assumptions files: one set per file, tagged with the schema they were written against
+export const ASSUMPTIONS_SCHEMA_VERSION = 1;
+
+// Fewer months than this give estimates too noisy to optimize on
+export const MIN_HISTORY_MONTHS = 24;
+
+export const assumptionLabel = (assumptions: Pick<CapitalMarketAssumptions, 'name' | 'version'>): string =>
+  `${assumptions.name} v${assumptions.version}`;
+
+const isReturnRisk = (value: unknown): value is ReturnRisk => {
+  const entry = value as ReturnRisk;
+  return !!entry && Number.isFinite(entry.expectedReturn) && Number.isFinite(entry.risk) && entry.risk >= 0;
+};
+
+// Validates a parsed assumptions file (see data/capital_market_assumptions.json for the format)
+export const parseAssumptions = (json: unknown): { assumptions: CapitalMarketAssumptions | null; errors: string[] } => {
+  const file = (json ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+  if (file.schemaVersion !== ASSUMPTIONS_SCHEMA_VERSION) {
+    errors.push(`Unsupported schemaVersion ${JSON.stringify(file.schemaVersion)}; expected ${ASSUMPTIONS_SCHEMA_VERSION}`);
+    return { assumptions: null, errors };
+  }
+  (['id', 'name', 'version'] as const).forEach(field => {
+    if (typeof file[field] !== 'string' || file[field] === '') errors.push(`${field} must be a non-empty string`);
+  });
+  if (!Number.isFinite(file.riskFreeRate)) errors.push('riskFreeRate must be a number');
+
+  const classes = (file.assetClasses ?? {}) as Record<string, unknown>;
+  ASSET_CLASSES.forEach(asset => {
+    if (!isReturnRisk(classes[asset])) errors.push(`assetClasses.${asset} needs a numeric expectedReturn and a non-negative risk`);
+  });
+
+  const correlations = file.correlations as Matrix;
+  if (!Array.isArray(correlations) || correlations.length !== ASSET_CLASSES.length
+    || correlations.some(row => !Array.isArray(row) || row.length !== ASSET_CLASSES.length)) {
+    errors.push(`correlations must be a ${ASSET_CLASSES.length}×${ASSET_CLASSES.length} matrix in ${ASSET_CLASSES.join(', ')} order`);
+  } else {
+    errors.push(...validateCorrelationMatrix(correlations).map(error => `correlations: ${error}`));
+  }
+
+  const securities = (file.securities ?? {}) as Record<string, unknown>;
+  Object.keys(securities).forEach(symbol => {
+    if (!isReturnRisk(securities[symbol])) errors.push(`securities.${symbol} needs a numeric expectedReturn and a non-negative risk`);
+  });
+
+  if (errors.length > 0) return { assumptions: null, errors };
+  const byField = (field: keyof ReturnRisk): Allocation => {
+    const [stocks, bonds, alternatives, cash] = ASSET_CLASSES.map(asset => (classes[asset] as ReturnRisk)[field]);
+    return { stocks, bonds, alternatives, cash };
+  };
+  return {
+    assumptions: {
+      id: String(file.id),
+      name: String(file.name),
+      version: String(file.version),
+      asOf: typeof file.asOf === 'string' ? file.asOf : '',
+      source: typeof file.source === 'string' ? file.source : '',
+      returns: byField('expectedReturn'),
+      risks: byField('risk'),
+      correlations: correlations.map(row => [...row]),
+      riskFreeRate: Number(file.riskFreeRate),
+      securities: Object.fromEntries(Object.entries(securities as Record<string, ReturnRisk>)
+        .map(([symbol, { expectedReturn, risk }]) => [symbol.toUpperCase(), { expectedReturn, risk }]))
+    },
+    errors
+  };
+};
+
+export const loadAssumptions = (json: unknown): CapitalMarketAssumptions => {
+  const { assumptions, errors } = parseAssumptions(json);
+  if (!assumptions) throw new Error(`Invalid capital market assumptions: ${errors.join('; ')}`);
+  return assumptions;
+};
+
+// Inverse of parseAssumptions, so derived sets can be saved and versioned
+export const assumptionsToJson = (assumptions: CapitalMarketAssumptions): string => JSON.stringify({
+  schemaVersion: ASSUMPTIONS_SCHEMA_VERSION,
+  id: assumptions.id,
+  name: assumptions.name,
+  version: assumptions.version,
+  asOf: assumptions.asOf,
+  source: assumptions.source,
+  riskFreeRate: assumptions.riskFreeRate,
+  assetClasses: Object.fromEntries(ASSET_CLASSES.map(asset => [asset, { expectedReturn: assumptions.returns[asset], risk: assumptions.risks[asset] }])),
+  correlations: assumptions.correlations,
+  securities: assumptions.securities
+}, null, 2);
+
+export const DEFAULT_ASSUMPTIONS: CapitalMarketAssumptions = loadAssumptions(houseView);
+
+export const securityAssumption = (assumptions: CapitalMarketAssumptions, symbol: string, assetClass: AssetClass): ReturnRisk =>
+  assumptions.securities[symbol] ?? { expectedReturn: assumptions.returns[assetClass], risk: assumptions.risks[assetClass] };
+
+export const recommendationsFor = (universe: AssetUniverse, assumptions: CapitalMarketAssumptions): Record<keyof AssetUniverse, AssetRecommendation[]> => {
+  const withAssumptions = (assetClass: keyof AssetUniverse) =>
+    universe[assetClass].map(security => ({ ...security, ...securityAssumption(assumptions, security.symbol, assetClass) }));
+  return { stocks: withAssumptions('stocks'), bonds: withAssumptions('bonds'), alternatives: withAssumptions('alternatives') };
+};
+
+// Parses "date,VTI,BND,..." closing prices (daily or monthly) into month-end to month-end returns
+export const parsePricesCsv = (text: string): { rows: ReturnRow[]; errors: string[] } => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length < 3) {
+    return { rows: [], errors: ['The file needs a header row and prices for at least two months'] };
+  }
+
+  const tickers = splitCsvLine(lines[0]).slice(1).map(cell => cell.toUpperCase());
+  const errors: string[] = [];
+  const priced: { date: string; prices: number[] }[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const date = /^\d{4}-\d{2}$/.test(cells[0]) ? `${cells[0]}-28` : toIsoDate(cells[0]);
+    if (!date) {
+      errors.push(`Row ${index + 2}: "${cells[0]}" is not a date`);
+      return;
+    }
+    const prices = tickers.map((_, k) => Number(String(cells[k + 1] ?? '').replace(/[$,]/g, '')));
+    const bad = tickers.filter((_, k) => !(prices[k] > 0));
+    if (bad.length > 0) errors.push(`Row ${index + 2} (${date}): invalid price for ${bad.join(', ')}`);
+    else priced.push({ date, prices });
+  });
+
+  // Keep the last close of each month
+  priced.sort((a, b) => a.date.localeCompare(b.date));
+  const monthEnds = priced.filter((row, i) => i === priced.length - 1 || priced[i + 1].date.slice(0, 7) !== row.date.slice(0, 7));
+  const monthIndex = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7));
+  const rows: ReturnRow[] = [];
+  monthEnds.forEach((row, i) => {
+    if (i === 0) return;
+    const previous = monthEnds[i - 1];
+    if (monthIndex(row.date) - monthIndex(previous.date) > 1) {
+      errors.push(`Prices between ${previous.date.slice(0, 7)} and ${row.date.slice(0, 7)} are missing`);
+      return;
+    }
+    const returns: ReturnRow = { month: row.date.slice(0, 7) };
+    tickers.forEach((ticker, k) => { returns[ticker] = row.prices[k] / previous.prices[k] - 1; });
+    rows.push(returns);
+  });
+  return { rows, errors };
+};
+
+const mean = (values: number[]) => values.reduce((sum, x) => sum + x, 0) / values.length;
+
+// Sample covariance (n − 1 denominator) of equally long series
+const sampleCovariance = (series: number[][]): Matrix => {
+  const means = series.map(mean);
+  const n = series[0].length;
+  return series.map((a, i) => series.map((b, j) =>
+    a.reduce((sum, x, t) => sum + (x - means[i]) * (b[t] - means[j]), 0) / (n - 1)));
+};
+
+export interface DeriveAssumptionsInput {
+  rows: ReturnRow[];
+  tickersByClass: TickersByClass;
+  // Used for classes without price history and for the risk-free rate
+  base: CapitalMarketAssumptions;
+  // 0 keeps the sample estimates; 1 replaces them with the shrinkage targets
+  shrinkage?: number;
+}
+
+// Annualized sample means and covariances of monthly returns. Each asset class is the equal-weight
+// average of its tickers. Shrinkage pulls means toward their cross-sectional average and the
+// covariance toward a constant-correlation target with the same volatilities.
+export const deriveAssumptions = ({ rows, tickersByClass, base, shrinkage = 0 }: DeriveAssumptionsInput): {
+  assumptions: CapitalMarketAssumptions | null;
+  errors: string[];
+  warnings: string[];
+} => {
+  if (rows.length < MIN_HISTORY_MONTHS) {
+    return { assumptions: null, errors: [`Need at least ${MIN_HISTORY_MONTHS} months of history; the file covers ${rows.length}`], warnings: [] };
+  }
+  const delta = Math.min(1, Math.max(0, shrinkage));
+  const available = Object.keys(rows[0]).filter(key => key !== 'month');
+  const seriesOf = (ticker: string) => rows.map(row => Number(row[ticker]));
+  const membersOf = (asset: AssetClass) => (asset === 'cash'
+    ? available.filter(ticker => CASH_SYMBOLS.includes(ticker))
+    : available.filter(ticker => tickersByClass[asset]?.includes(ticker)));
+
+  const observed = ASSET_CLASSES.filter(asset => membersOf(asset).length > 0);
+  if (observed.length === 0) {
+    return { assumptions: null, errors: ['None of the tickers in the file belong to a known asset class'], warnings: [] };
+  }
+  const classSeries = observed.map(asset => {
+    const members = membersOf(asset).map(seriesOf);
+    return rows.map((_, t) => mean(members.map(series => series[t])));
+  });
+
+  const shrinkMeans = (values: number[]) => {
+    const target = mean(values);
+    return values.map(value => (1 - delta) * value + delta * target);
+  };
+  const classMeans = shrinkMeans(classSeries.map(series => 12 * mean(series)));
+  const sample = sampleCovariance(classSeries).map(row => row.map(x => 12 * x));
+  const vols = sample.map((row, i) => Math.sqrt(row[i]));
+  const sampleCorrelation = (i: number, j: number) => (vols[i] > 0 && vols[j] > 0 ? sample[i][j] / (vols[i] * vols[j]) : 0);
+  const pairs = observed.flatMap((_, i) => observed.flatMap((__, j) => (j > i ? [sampleCorrelation(i, j)] : [])));
+  const averageCorrelation = pairs.length > 0 ? mean(pairs) : 0;
+  const shrunkCorrelation = (i: number, j: number) => (i === j ? 1 : (1 - delta) * sampleCorrelation(i, j) + delta * averageCorrelation);
+
+  const warnings: string[] = [];
+  const returns = { ...base.returns };
+  const risks = { ...base.risks };
+  observed.forEach((asset, k) => {
+    returns[asset] = classMeans[k];
+    risks[asset] = vols[k];
+  });
+  ASSET_CLASSES.filter(asset => !observed.includes(asset)).forEach(asset => {
+    warnings.push(`No price history for ${asset}; kept the ${assumptionLabel(base)} figures`);
+  });
+
+  const position = (asset: AssetClass) => observed.indexOf(asset);
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  const combine = (crossCorrelation: (a: number, b: number) => number) => ASSET_CLASSES.map((a, i) => ASSET_CLASSES.map((b, j) => {
+    if (i === j) return 1;
+    if (position(a) >= 0 && position(b) >= 0) return round(shrunkCorrelation(position(a), position(b)));
+    if (position(a) < 0 && position(b) < 0) return base.correlations[i][j];
+    return crossCorrelation(i, j);
+  }));
+  // Mixing estimated and carried-over correlations can break positive semi-definiteness
+  let correlations = combine((i, j) => base.correlations[i][j]);
+  if (validateCorrelationMatrix(correlations).length > 0) {
+    correlations = combine(() => 0);
+    warnings.push('Estimated and carried-over correlations were inconsistent; classes without history are treated as uncorrelated');
+  }
+
+  const securityTickers = available.filter(ticker => !CASH_SYMBOLS.includes(ticker));
+  const securityMeans = securityTickers.length > 0 ? shrinkMeans(securityTickers.map(ticker => 12 * mean(seriesOf(ticker)))) : [];
+  const securities = Object.fromEntries(securityTickers.map((ticker, k) => {
+    const series = seriesOf(ticker);
+    const variance = sampleCovariance([series])[0][0];
+    return [ticker, { expectedReturn: round(securityMeans[k]), risk: round(Math.sqrt(12 * variance)) }];
+  }));
+
+  const first = rows[0].month;
+  const last = rows[rows.length - 1].month;
+  return {
+    assumptions: {
+      id: `historical-${first}-${last}-${Math.round(delta * 100)}`,
+      name: 'Historical estimate',
+      version: `${first} to ${last}${delta > 0 ? `, ${Math.round(delta * 100)}% shrinkage` : ''}`,
+      asOf: last,
+      source: `Sample estimates from ${rows.length} months of prices`,
+      returns: Object.fromEntries(ASSET_CLASSES.map(asset => [asset, round(returns[asset])])) as Allocation,
+      risks: Object.fromEntries(ASSET_CLASSES.map(asset => [asset, round(risks[asset])])) as Allocation,
+      correlations,
+      riskFreeRate: base.riskFreeRate,
+      securities: { ...base.securities, ...securities }
+    },
+    errors: [],
+    warnings
+  };
+};
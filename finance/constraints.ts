@@ -0,0 +1,122 @@
+import { ASSET_CLASSES } from './assumptions';
+import type { AssetClass, AssetUniverse, Bound, Security, WeightBound } from './types';
+
+// Client restrictions on top of the asset-class weight bounds. Weights are percentages of the portfolio.
+export interface PortfolioConstraints {
+  securityBounds: Record<string, WeightBound>;
+  excludedTickers: string[];
+  excludedCategories: string[];
+  // Largest one-way turnover from the current allocation, measured on asset-class weights; null for no limit
+  maxTurnover: number | null;
+  cashFloor: number;
+}
+
+export const NO_CONSTRAINTS: PortfolioConstraints = {
+  securityBounds: {},
+  excludedTickers: [],
+  excludedCategories: [],
+  maxTurnover: null,
+  cashFloor: 0
+};
+
+const percent = (fraction: number) => `${Math.round(fraction * 1000) / 10}%`;
+const label = (asset: AssetClass) => asset.charAt(0).toUpperCase() + asset.slice(1);
+
+export const isExcluded = (
+  security: Pick<Security, 'symbol' | 'category'>,
+  constraints: Pick<PortfolioConstraints, 'excludedTickers' | 'excludedCategories'>
+): boolean =>
+  constraints.excludedTickers.includes(security.symbol) || constraints.excludedCategories.includes(security.category);
+
+export const excludeSecurities = (universe: AssetUniverse, constraints: PortfolioConstraints): AssetUniverse => ({
+  stocks: universe.stocks.filter(security => !isExcluded(security, constraints)),
+  bonds: universe.bonds.filter(security => !isExcluded(security, constraints)),
+  alternatives: universe.alternatives.filter(security => !isExcluded(security, constraints))
+});
+
+// Fraction bounds for one fund; funds without their own bounds may take anything the class allows
+export const securityBound = (symbol: string, constraints: PortfolioConstraints, longOnly = true): Bound => {
+  const bound = constraints.securityBounds[symbol];
+  const floor = longOnly ? 0 : -1;
+  return {
+    lower: bound ? Math.max(floor, bound.min / 100) : floor,
+    upper: bound ? Math.min(1, bound.max / 100) : 1
+  };
+};
+
+// Tightens asset-class bounds (fractions) with the cash floor and the bounds of the funds left in each class
+export const effectiveClassBounds = (
+  classBounds: Bound[],
+  universe: AssetUniverse,
+  constraints: PortfolioConstraints,
+  longOnly = true
+): Bound[] => ASSET_CLASSES.map((asset, k) => {
+  const { lower, upper } = classBounds[k];
+  if (asset === 'cash') return { lower: Math.max(lower, constraints.cashFloor / 100), upper };
+  const funds = universe[asset].filter(security => !isExcluded(security, constraints));
+  if (funds.length === 0) return { lower, upper: Math.min(upper, 0) };
+  const bounds = funds.map(security => securityBound(security.symbol, constraints, longOnly));
+  return {
+    lower: Math.max(lower, bounds.reduce((sum, bound) => sum + bound.lower, 0)),
+    upper: Math.min(upper, bounds.reduce((sum, bound) => sum + bound.upper, 0))
+  };
+});
+
+// Lists every reason the constraints cannot all hold; empty when a portfolio satisfying them exists
+export const explainConstraintConflicts = (
+  classBounds: Bound[],
+  universe: AssetUniverse,
+  constraints: PortfolioConstraints,
+  longOnly = true
+): string[] => {
+  const conflicts: string[] = [];
+  const universeSecurities = ASSET_CLASSES.flatMap(asset => (asset === 'cash' ? [] : universe[asset]));
+
+  Object.entries(constraints.securityBounds).forEach(([symbol, bound]) => {
+    if (bound.min > bound.max) conflicts.push(`${symbol} minimum of ${bound.min}% exceeds its maximum of ${bound.max}%`);
+    const security = universeSecurities.find(item => item.symbol === symbol);
+    if (security && isExcluded(security, constraints) && bound.min > 0) {
+      conflicts.push(`${symbol} is excluded but has a minimum of ${bound.min}%`);
+    }
+  });
+
+  const effective = effectiveClassBounds(classBounds, universe, constraints, longOnly);
+  ASSET_CLASSES.forEach((asset, k) => {
+    const { lower, upper } = effective[k];
+    if (lower <= upper + 1e-9) return;
+    const given = classBounds[k];
+    if (asset === 'cash' && constraints.cashFloor / 100 > given.upper) {
+      conflicts.push(`Cash floor of ${constraints.cashFloor}% is above the cash maximum of ${percent(given.upper)}`);
+      return;
+    }
+    if (given.lower > given.upper) {
+      conflicts.push(`${label(asset)} minimum of ${percent(given.lower)} exceeds its maximum of ${percent(given.upper)}`);
+      return;
+    }
+    if (asset === 'cash') return;
+    const funds = universe[asset].filter(security => !isExcluded(security, constraints));
+    const bounded = funds.filter(security => constraints.securityBounds[security.symbol]);
+    const symbols = (list: Security[]) => list.map(security => security.symbol).join(', ');
+    if (funds.length === 0) {
+      conflicts.push(`${label(asset)} needs at least ${percent(given.lower)}, but every ${asset} fund is excluded`);
+    } else if (lower > given.upper) {
+      conflicts.push(`Minimums for ${symbols(bounded)} add up to ${percent(lower)}, above the ${asset} maximum of ${percent(given.upper)}`);
+    } else {
+      conflicts.push(`Maximums for ${symbols(funds)} add up to ${percent(upper)}, below the ${asset} minimum of ${percent(given.lower)}`);
+    }
+  });
+  if (conflicts.length > 0) return conflicts;
+
+  const lowerTotal = effective.reduce((sum, bound) => sum + bound.lower, 0);
+  const upperTotal = effective.reduce((sum, bound) => sum + bound.upper, 0);
+  const listed = (side: keyof Bound) => ASSET_CLASSES
+    .flatMap((asset, k) => (side === 'upper' || effective[k].lower > 0 ? [`${asset} ${percent(effective[k][side])}`] : []))
+    .join(', ');
+  if (lowerTotal > 1 + 1e-9) conflicts.push(`Minimums add up to ${percent(lowerTotal)} (${listed('lower')}), more than 100%`);
+  if (upperTotal < 1 - 1e-9) conflicts.push(`Maximums add up to only ${percent(upperTotal)} (${listed('upper')}), less than 100%`);
+  return conflicts;
+};
+
+// One-way turnover between two weight vectors of the same assets (fractions)
+export const oneWayTurnover = (from: number[], to: number[]): number =>
+  from.reduce((sum, weight, i) => sum + Math.abs(to[i] - weight), 0) / 2;
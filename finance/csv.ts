@@ -0,0 +1,42 @@
+// Splits one CSV line, honouring double-quoted cells that contain commas or escaped quotes
+export const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      cell += '"';
+      i += 1;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// Quotes a cell for writing when it holds a comma, quote or line break, the reverse of splitCsvLine
+export const csvCell = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Parses "$1,234.50" and "(12.00)" style cells; empty or malformed cells become NaN
+export const parseAmount = (cell: string | number | null | undefined): number => {
+  const text = String(cell ?? '').replace(/[$,\s]/g, '');
+  if (text === '' || text === '--') return NaN;
+  const negative = /^\(.*\)$/.test(text);
+  const value = Number(negative ? text.slice(1, -1) : text);
+  return negative ? -value : value;
+};
+
+// Accepts YYYY-MM-DD or MM/DD/YYYY; anything else becomes an empty (unknown) date
+export const toIsoDate = (cell: string | null | undefined): string => {
+  const text = String(cell ?? '').trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  return match ? `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}` : '';
+};
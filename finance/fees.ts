@@ -0,0 +1,42 @@
+import { projectCashFlows } from './cashflows';
+import type { CashFlow, CashFlowProjection } from './cashflows';
+import type { AssetUniverse, SecurityWeight } from './types';
+
+// Weighted fund expense ratio of a portfolio (fractions); cash and funds outside the universe cost nothing
+export const portfolioExpenseRatio = (securityWeights: SecurityWeight[], universe: AssetUniverse): number =>
+  securityWeights.reduce((sum, item) => {
+    if (item.assetClass === 'cash' || item.weight <= 0) return sum;
+    const security = universe[item.assetClass].find(fund => fund.symbol === item.id);
+    return sum + item.weight * (security?.expenseRatio ?? 0);
+  }, 0);
+
+export interface FeeProjection {
+  gross: CashFlowProjection;
+  net: CashFlowProjection;
+  // Fees charged in each year and their running total; year 0 is zero
+  annualFees: number[];
+  cumulativeFees: number[];
+  // Gross minus net ending value: the fees plus the growth they would have earned
+  cost: number;
+}
+
+// Projects the plan before and after an annual fee (fraction of assets), charged at each year end on the grown balance
+export const projectNetOfFees = ({ initialValue, growth, feeRate, schedule }: {
+  initialValue: number;
+  growth: number;
+  feeRate: number;
+  schedule: CashFlow[];
+}): FeeProjection => {
+  const gross = projectCashFlows({ initialValue, growth, schedule });
+  const net = projectCashFlows({ initialValue, growth: (1 + growth) * (1 - feeRate) - 1, schedule });
+  const annualFees = net.values.map((_value, year) => (year === 0 ? 0 : net.values[year - 1] * (1 + growth) * feeRate));
+  let total = 0;
+  const cumulativeFees = annualFees.map(fee => (total += fee));
+  return {
+    gross,
+    net,
+    annualFees,
+    cumulativeFees,
+    cost: gross.values[gross.values.length - 1] - net.values[net.values.length - 1]
+  };
+};
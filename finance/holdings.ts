@@ -0,0 +1,116 @@
+import { ASSET_CLASSES } from './assumptions';
+import { parseAmount, splitCsvLine, toIsoDate } from './csv';
+import { toAllocation, toPercentages } from './optimizer';
+import type { AssetClass, Allocation, TickersByClass } from './types';
+
+export interface Holding {
+  id: number;
+  ticker: string;
+  shares: number;
+  price: number;
+  costBasis: number;
+  account: string;
+  // YYYY-MM-DD, or empty when unknown
+  purchaseDate: string;
+}
+
+export const CASH_SYMBOLS = ['CASH', 'SPAXX', 'FDRXX', 'VMFXX', 'SWVXX'];
+
+// Header aliases used by common brokerage position exports
+export const HOLDING_COLUMNS: Record<Exclude<keyof Holding, 'id'>, string[]> = {
+  ticker: ['symbol', 'ticker'],
+  shares: ['quantity', 'shares', 'qty'],
+  price: ['last price', 'price', 'current price', 'market price'],
+  costBasis: ['cost basis total', 'cost basis', 'total cost basis', 'cost'],
+  account: ['account name/number', 'account name', 'account number', 'account'],
+  purchaseDate: ['date acquired', 'acquired', 'purchase date', 'open date']
+};
+
+let nextHoldingId = 1;
+export const createHolding = (fields: Partial<Holding> = {}): Holding => ({
+  id: nextHoldingId++,
+  ticker: '',
+  shares: 0,
+  price: 0,
+  costBasis: 0,
+  account: '',
+  purchaseDate: '',
+  ...fields
+});
+
+// Keeps generated ids unique once holdings created elsewhere (e.g. a restored scenario) are loaded
+export const reserveHoldingIds = (holdings: Pick<Holding, 'id'>[]): void => {
+  nextHoldingId = Math.max(nextHoldingId, ...holdings.map(holding => holding.id + 1));
+};
+
+// Normalizes broker symbols (e.g. "SPAXX**") and maps them to an asset class, or null if unknown
+export const classifyTicker = (ticker: string, tickersByClass: TickersByClass): AssetClass | null => {
+  const symbol = ticker.replace(/\*+$/, '').toUpperCase();
+  if (CASH_SYMBOLS.includes(symbol)) return 'cash';
+  return ASSET_CLASSES.find(assetClass => tickersByClass[assetClass]?.includes(symbol)) || null;
+};
+
+export const parseHoldingsCsv = (text: string, tickersByClass: TickersByClass): { holdings: Holding[]; errors: string[] } => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = splitCsvLine(lines[0] || '').map(cell => cell.toLowerCase());
+  const columnOf = (field: keyof typeof HOLDING_COLUMNS) =>
+    HOLDING_COLUMNS[field].map(alias => header.indexOf(alias)).find(index => index >= 0) ?? -1;
+  const missing = (['ticker', 'shares'] as const).filter(field => columnOf(field) < 0);
+  if (missing.length > 0) {
+    return { holdings: [], errors: [`Missing required column(s): ${missing.join(', ')}`] };
+  }
+
+  const holdings: Holding[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const cell = (field: keyof typeof HOLDING_COLUMNS) => (columnOf(field) >= 0 ? cells[columnOf(field)] ?? '' : '');
+    const ticker = cell('ticker').replace(/\*+$/, '').toUpperCase();
+    // Skip totals, pending-activity and disclaimer rows that carry no position
+    if (!ticker || cell('shares') === '') return;
+
+    const assetClass = classifyTicker(ticker, tickersByClass);
+    const shares = parseAmount(cell('shares'));
+    // Money-market positions are often exported without a price; they trade at $1
+    const price = assetClass === 'cash' && cell('price') === '' ? 1 : parseAmount(cell('price'));
+    const costBasis = parseAmount(cell('costBasis'));
+    const rowErrors: string[] = [];
+    if (!Number.isFinite(shares) || shares < 0) rowErrors.push(`invalid quantity "${cell('shares')}"`);
+    if (!Number.isFinite(price) || price < 0) rowErrors.push(`invalid price "${cell('price')}"`);
+    if (!assetClass) rowErrors.push('ticker is not in the asset universe');
+
+    if (rowErrors.length > 0) {
+      errors.push(`Row ${index + 2} (${ticker}): ${rowErrors.join('; ')}`);
+    } else {
+      holdings.push(createHolding({
+        ticker,
+        shares,
+        price,
+        costBasis: Number.isFinite(costBasis) ? costBasis : 0,
+        account: cell('account'),
+        purchaseDate: toIsoDate(cell('purchaseDate'))
+      }));
+    }
+  });
+  return { holdings, errors };
+};
+
+// Market value per asset class as percentages that sum to 100; unknown tickers are reported, not counted
+export const rollUpHoldings = (holdings: Holding[], tickersByClass: TickersByClass): { allocation: Allocation; totalValue: number; unclassified: string[] } => {
+  const values: Allocation = { stocks: 0, bonds: 0, alternatives: 0, cash: 0 };
+  const unclassified: string[] = [];
+  holdings.forEach(holding => {
+    const assetClass = classifyTicker(holding.ticker, tickersByClass);
+    const value = holding.shares * holding.price;
+    if (!assetClass) {
+      if (holding.ticker) unclassified.push(holding.ticker);
+    } else if (Number.isFinite(value)) {
+      values[assetClass] += value;
+    }
+  });
+  const totalValue = ASSET_CLASSES.reduce((sum, asset) => sum + values[asset], 0);
+  const percentages = totalValue > 0
+    ? toPercentages(ASSET_CLASSES.map(asset => values[asset] / totalValue))
+    : ASSET_CLASSES.map(() => 0);
+  return { allocation: toAllocation(percentages), totalValue, unclassified };
+};
@@ -0,0 +1,186 @@
+import { ASSET_CLASSES } from './assumptions';
+import { isExcluded } from './constraints';
+import type { PortfolioConstraints } from './constraints';
+import { classifyTicker, rollUpHoldings } from './holdings';
+import type { Holding } from './holdings';
+import { toAllocation, toPercentages } from './optimizer';
+import { LOCATION_PREFERENCES } from './tax';
+import type { AccountType } from './tax';
+import { buildTradeList } from './trades';
+import type { TradeList, TradeListInput } from './trades';
+import type { Allocation, AssetUniverse, SecurityWeight, TaxEfficiency, TickersByClass } from './types';
+
+// One account in the household, matched to its holdings by the account name they carry
+export interface Account {
+  name: string;
+  owner: string;
+  type: AccountType;
+  // Funds the account cannot hold, e.g. a 401(k) limited to its plan menu
+  restrictions: Pick<PortfolioConstraints, 'excludedTickers' | 'excludedCategories'>;
+}
+
+export type AccountSettings = Partial<Omit<Account, 'name'>>;
+
+export const createAccount = (name: string, settings: AccountSettings = {}): Account => ({
+  name,
+  owner: '',
+  type: 'taxable',
+  restrictions: { excludedTickers: [], excludedCategories: [] },
+  ...settings
+});
+
+// Accounts in the order they first appear in the holdings, with any saved settings applied
+export const householdAccounts = (holdings: Holding[], settings: Record<string, AccountSettings>): Account[] => holdings
+  .map(holding => holding.account)
+  .filter((name, i, all) => all.indexOf(name) === i)
+  .map(name => createAccount(name, settings[name]));
+
+export const accountTypesOf = (accounts: Account[]): Record<string, AccountType> =>
+  Object.fromEntries(accounts.map(account => [account.name, account.type]));
+
+export interface AccountSummary {
+  account: Account;
+  allocation: Allocation;
+  totalValue: number;
+  unclassified: string[];
+}
+
+export interface HouseholdSummary {
+  accounts: AccountSummary[];
+  allocation: Allocation;
+  totalValue: number;
+  unclassified: string[];
+}
+
+// Allocation of each account and of the household as a whole
+export const rollUpHousehold = (holdings: Holding[], accounts: Account[], tickersByClass: TickersByClass): HouseholdSummary => ({
+  ...rollUpHoldings(holdings, tickersByClass),
+  accounts: accounts.map(account => ({
+    account,
+    ...rollUpHoldings(holdings.filter(holding => holding.account === account.name), tickersByClass)
+  }))
+});
+
+export interface AccountPlacement {
+  account: Account;
+  totalValue: number;
+  // Dollars by fund symbol, with cash under 'cash'
+  current: Record<string, number>;
+  target: Record<string, number>;
+  // Target allocation of the account in percent
+  allocation: Allocation;
+}
+
+export interface HouseholdPlacement {
+  accounts: AccountPlacement[];
+  unplaced: { symbol: string; amount: number }[];
+  notes: string[];
+}
+
+// Inefficient funds claim the tax-deferred room and exempt funds the taxable room before
+// efficient funds, which suit any account, fill what is left
+const PLACEMENT_ORDER: Record<TaxEfficiency, number> = { inefficient: 0, exempt: 1, efficient: 2 };
+
+export interface PlaceHouseholdInput {
+  // Household target, as fractions of the combined value of the accounts
+  securityWeights: SecurityWeight[];
+  accounts: Account[];
+  holdings: Holding[];
+  universe: AssetUniverse;
+  tickersByClass: TickersByClass;
+}
+
+// Places the household target across the accounts. Money stays in the account that holds it, so
+// each account keeps its value; each fund goes to the account types its asset location prefers,
+// and only where the account's restrictions allow. Whatever room is left in an account is held as cash.
+export const placeHouseholdAllocation = ({ securityWeights, accounts, holdings, universe, tickersByClass }: PlaceHouseholdInput): HouseholdPlacement => {
+  const current = accounts.map(account => {
+    const values: Record<string, number> = {};
+    holdings.filter(holding => holding.account === account.name).forEach(holding => {
+      const assetClass = classifyTicker(holding.ticker, tickersByClass);
+      const value = holding.shares * holding.price;
+      if (!assetClass || !Number.isFinite(value)) return;
+      const key = assetClass === 'cash' ? 'cash' : holding.ticker;
+      values[key] = (values[key] || 0) + value;
+    });
+    return values;
+  });
+  const accountValues = current.map(values => Object.keys(values).reduce((sum, key) => sum + values[key], 0));
+  const totalValue = accountValues.reduce((sum, value) => sum + value, 0);
+  const room = [...accountValues];
+  const targets: Record<string, number>[] = accounts.map(() => ({}));
+  const notes: string[] = [];
+  const unplaced: HouseholdPlacement['unplaced'] = [];
+
+  const funds = securityWeights
+    .filter(item => item.assetClass !== 'cash' && Math.abs(item.weight) > 1e-6)
+    .map(item => {
+      const security = item.assetClass === 'cash' ? undefined : universe[item.assetClass].find(fund => fund.symbol === item.id);
+      const taxEfficiency: TaxEfficiency = security?.taxEfficiency ?? 'efficient';
+      return {
+        symbol: item.id,
+        category: security?.category ?? '',
+        taxEfficiency,
+        amount: item.weight * totalValue
+      };
+    });
+  if (funds.some(fund => fund.amount < 0)) notes.push('Short positions are not placed across accounts; they are left out');
+
+  funds
+    .filter(fund => fund.amount > 0)
+    .sort((a, b) => PLACEMENT_ORDER[a.taxEfficiency] - PLACEMENT_ORDER[b.taxEfficiency] || b.amount - a.amount)
+    .forEach(fund => {
+      let remaining = fund.amount;
+      LOCATION_PREFERENCES[fund.taxEfficiency].forEach(type => {
+        accounts
+          .map((_account, k) => k)
+          .filter(k => accounts[k].type === type && !isExcluded(fund, accounts[k].restrictions))
+          .sort((a, b) => room[b] - room[a])
+          .forEach(k => {
+            const amount = Math.min(remaining, room[k]);
+            if (amount <= 0) return;
+            targets[k][fund.symbol] = (targets[k][fund.symbol] || 0) + amount;
+            room[k] -= amount;
+            remaining -= amount;
+          });
+      });
+      if (remaining > 0.005) {
+        unplaced.push({ symbol: fund.symbol, amount: remaining });
+        notes.push(`${fund.symbol}: $${Math.round(remaining).toLocaleString()} could not be placed, as the accounts with room exclude it; it is held as cash`);
+      }
+    });
+
+  return {
+    accounts: accounts.map((account, k) => {
+      const target: Record<string, number> = { ...targets[k], ...(room[k] > 0.005 ? { cash: room[k] } : {}) };
+      const classValues = ASSET_CLASSES.map(asset => Object.keys(target)
+        .filter(symbol => (symbol === 'cash' ? 'cash' : classifyTicker(symbol, tickersByClass)) === asset)
+        .reduce((sum, symbol) => sum + target[symbol], 0));
+      return {
+        account,
+        totalValue: accountValues[k],
+        current: current[k],
+        target,
+        allocation: accountValues[k] > 0
+          ? toAllocation(toPercentages(classValues.map(value => value / accountValues[k])))
+          : toAllocation(ASSET_CLASSES.map(() => 0))
+      };
+    }),
+    unplaced,
+    notes
+  };
+};
+
+// Trade list for each account, moving it from its current holdings to its placed target
+export const planAccountTrades = (
+  placement: HouseholdPlacement,
+  settings: Pick<TradeListInput, 'prices' | 'classOf' | 'minTradeSize' | 'wholeShares' | 'cashBuffer'>
+): (TradeList & { account: Account })[] => placement.accounts.map(item => ({
+  account: item.account,
+  ...buildTradeList({
+    ...settings,
+    targetWeights: Object.fromEntries(Object.keys(item.target).map(symbol => [symbol, item.totalValue > 0 ? item.target[symbol] / item.totalValue : 0])),
+    currentValues: item.current,
+    totalValue: item.totalValue
+  })
+}));
@@ -0,0 +1,25 @@
+// Finance engine behind the dashboard: pure functions with no React or browser dependencies,
+// so they can also run in batch jobs and the command line (see cli.ts).
+export * from './types';
+export * from './assumptions';
+export * from './cma';
+export * from './matrix';
+export * from './constraints';
+export * from './optimizer';
+export * from './selection';
+export * from './metrics';
+export * from './simulation';
+export * from './risk';
+export * from './cashflows';
+export * from './fees';
+export * from './csv';
+export * from './backtest';
+export * from './attribution';
+export * from './holdings';
+export * from './trades';
+export * from './tax';
+export * from './household';
+export * from './rebalancing';
+export * from './questionnaire';
+export * from './scenario';
+export * from './versioning';
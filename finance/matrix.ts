@@ -0,0 +1,85 @@
+import { ASSET_CLASSES } from './assumptions';
+import type { Matrix } from './types';
+
+export const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+export const dot = (a: number[], b: number[]): number => a.reduce((sum, x, i) => sum + x * b[i], 0);
+export const matVec = (matrix: Matrix, vector: number[]): number[] => matrix.map(row => dot(row, vector));
+export const portfolioVariance = (weights: number[], cov: Matrix): number => dot(weights, matVec(cov, weights));
+export const buildCovariance = (risks: number[], correlations: Matrix): Matrix =>
+  risks.map((ri, i) => risks.map((rj, j) => ri * rj * correlations[i][j]));
+
+// Eigenvalues of a symmetric matrix via cyclic Jacobi rotations
+export const symmetricEigenvalues = (matrix: Matrix): number[] => {
+  const a = matrix.map(row => [...row]);
+  const n = a.length;
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+      }
+    }
+  }
+  return a.map((row, i) => row[i]);
+};
+
+// Returns a list of problems; an empty list means the matrix is a usable correlation matrix
+export const validateCorrelationMatrix = (matrix: Matrix, labels: readonly string[] = ASSET_CLASSES): string[] => {
+  const errors: string[] = [];
+  matrix.forEach((row, i) => row.forEach((value, j) => {
+    if (!Number.isFinite(value)) errors.push(`${labels[i]}/${labels[j]} is not a number`);
+    else if (i === j && value !== 1) errors.push(`${labels[i]} must have a correlation of 1 with itself`);
+    else if (j > i && Math.abs(value) > 1) errors.push(`${labels[i]}/${labels[j]} must be between -1 and 1`);
+    else if (j > i && value !== matrix[j][i]) errors.push(`${labels[i]}/${labels[j]} is not symmetric`);
+  }));
+  if (errors.length === 0) {
+    const smallest = Math.min(...symmetricEigenvalues(matrix));
+    if (smallest < -1e-10) {
+      errors.push(`Matrix is not positive semi-definite (smallest eigenvalue ${smallest.toFixed(3)}); these correlations cannot all hold at once`);
+    }
+  }
+  return errors;
+};
+
+// Lower-triangular L with L·L' = matrix; tiny negative pivots from rounding are treated as zero
+export const cholesky = (matrix: Matrix): Matrix => {
+  const n = matrix.length;
+  const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) lower[i][j] = Math.sqrt(Math.max(0, sum));
+      else lower[i][j] = lower[j][j] > 0 ? sum / lower[j][j] : 0;
+    }
+  }
+  return lower;
+};
+
+// Root of a decreasing function on [lo, hi] by bisection
+export const bisect = (f: (x: number) => number, lo: number, hi: number, iterations = 60): number => {
+  for (let i = 0; i < iterations; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) > 0) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
@@ -0,0 +1,23 @@
+import { ASSET_CLASSES } from './assumptions';
+import { assumptionLabel } from './cma';
+import { buildCovariance, portfolioVariance } from './matrix';
+import type { Allocation, CapitalMarketAssumptions, PortfolioMetrics } from './types';
+
+// Expected return, volatility (full covariance) and Sharpe ratio of an asset-class allocation
+export const calculateMetrics = (allocation: Allocation, assumptions: CapitalMarketAssumptions): PortfolioMetrics => {
+  const weights = ASSET_CLASSES.map(asset => allocation[asset] / 100);
+  const cov = buildCovariance(ASSET_CLASSES.map(asset => assumptions.risks[asset]), assumptions.correlations);
+
+  const expectedReturn = ASSET_CLASSES.reduce((sum, asset, i) => sum + weights[i] * assumptions.returns[asset], 0);
+  const risk = Math.sqrt(Math.max(0, portfolioVariance(weights, cov)));
+
+  return {
+    expectedReturn,
+    risk,
+    sharpeRatio: risk > 0 ? (expectedReturn - assumptions.riskFreeRate) / risk : 0,
+    assumptionSet: assumptionLabel(assumptions)
+  };
+};
+
+// Compound at the geometric (median) growth rate, which accounts for volatility drag
+export const growthRate = (metrics: Pick<PortfolioMetrics, 'expectedReturn' | 'risk'>): number => metrics.expectedReturn - Math.pow(metrics.risk, 2) / 2;
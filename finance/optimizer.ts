@@ -0,0 +1,350 @@
+import { ASSET_CLASSES, ASSET_UNIVERSE, INTRA_CLASS_CORRELATION } from './assumptions';
+import { securityAssumption } from './cma';
+import {
+  NO_CONSTRAINTS, effectiveClassBounds, excludeSecurities, explainConstraintConflicts, oneWayTurnover, securityBound
+} from './constraints';
+import type { PortfolioConstraints } from './constraints';
+import { bisect, buildCovariance, clamp, dot, matVec, portfolioVariance } from './matrix';
+import type {
+  Allocation, AssetClass, AssetUniverse, Bound, CapitalMarketAssumptions, FrontierPoint, Matrix,
+  OptimizationMode, RiskProfile, SecurityWeight, WeightBound, WeightConstraints
+} from './types';
+
+export interface DescribedPortfolio {
+  weights: number[];
+  expectedReturn: number;
+  risk: number;
+  sharpeRatio: number;
+}
+
+export interface MeanVarianceResult extends DescribedPortfolio {
+  note: string | null;
+}
+
+export interface MeanVarianceInput {
+  mu: number[];
+  cov: Matrix;
+  constraints: WeightConstraints;
+  mode: OptimizationMode;
+  targetReturn?: number;
+  maxRisk?: number;
+  riskFreeRate: number;
+}
+
+// Euclidean projection onto { sum(w) = 1, lower <= w <= upper, lower <= group total <= upper }.
+// Groups partition the assets, so the KKT multipliers can be found by nested bisection.
+export const projectWeights = (v: number[], { lower, upper, groups }: WeightConstraints): number[] => {
+  const lo = Math.min(...v.map((x, i) => x - upper[i])) - 1;
+  const hi = Math.max(...v.map((x, i) => x - lower[i])) + 1;
+  const clippedSum = (indices: number[], shift: number) =>
+    indices.reduce((sum, i) => sum + clamp(v[i] - shift, lower[i], upper[i]), 0);
+  const groupTotal = (group: WeightConstraints['groups'][number], shift: number) =>
+    clamp(clippedSum(group.indices, shift), group.lower, group.upper);
+
+  const tau = bisect(t => groups.reduce((sum, g) => sum + groupTotal(g, t), 0) - 1, lo, hi);
+  const w = new Array<number>(v.length).fill(0);
+  groups.forEach(group => {
+    const target = groupTotal(group, tau);
+    const shift = bisect(s => clippedSum(group.indices, s) - target, lo, hi);
+    group.indices.forEach(i => { w[i] = clamp(v[i] - shift, lower[i], upper[i]); });
+  });
+  return w;
+};
+
+// Iteration cap per solve; warm starts from a nearby solution usually converge in far fewer
+const MAX_ITERATIONS = 500;
+
+// Minimizes ½·w'Σw − λ·μ'w over the constraint set with accelerated projected gradient (FISTA),
+// starting from the given weights (e.g. the solution for a nearby λ) or equal weights
+export const solveMeanVariance = (
+  mu: number[], cov: Matrix, constraints: WeightConstraints, riskAversion: number, start?: number[]
+): number[] => {
+  const lipschitz = Math.max(1e-8, ...cov.map(row => row.reduce((sum, x) => sum + Math.abs(x), 0)));
+  const step = 1 / lipschitz;
+  let w = projectWeights(start ?? mu.map(() => 1 / mu.length), constraints);
+  let y = w;
+  let t = 1;
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const grad = matVec(cov, y).map((g, i) => g - riskAversion * mu[i]);
+    const next = projectWeights(y.map((x, i) => x - step * grad[i]), constraints);
+    const tNext = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+    y = next.map((x, i) => x + ((t - 1) / tNext) * (x - w[i]));
+    const moved = Math.max(...next.map((x, i) => Math.abs(x - w[i])));
+    w = next;
+    t = tNext;
+    if (moved < 1e-9) break;
+  }
+  return w;
+};
+
+export const describePortfolio = (weights: number[], mu: number[], cov: Matrix, riskFreeRate: number): DescribedPortfolio => {
+  const ret = dot(weights, mu);
+  const risk = Math.sqrt(Math.max(0, portfolioVariance(weights, cov)));
+  return { weights, expectedReturn: ret, risk, sharpeRatio: risk > 0 ? (ret - riskFreeRate) / risk : 0 };
+};
+
+// Risk aversion is searched on a log scale; 10^2 is effectively the maximum-return corner
+const MIN_LOG_AVERSION = -3;
+const MAX_LOG_AVERSION = 2;
+
+export const efficientFrontier = (mu: number[], cov: Matrix, constraints: WeightConstraints, riskFreeRate: number, points = 30): DescribedPortfolio[] => {
+  const frontier = [describePortfolio(solveMeanVariance(mu, cov, constraints, 0), mu, cov, riskFreeRate)];
+  let previous = frontier[0].weights;
+  for (let i = 0; i < points; i++) {
+    const logAversion = MIN_LOG_AVERSION + (i / (points - 1)) * (MAX_LOG_AVERSION - MIN_LOG_AVERSION);
+    const point = describePortfolio(solveMeanVariance(mu, cov, constraints, Math.pow(10, logAversion), previous), mu, cov, riskFreeRate);
+    previous = point.weights;
+    const last = frontier[frontier.length - 1];
+    if (Math.abs(point.risk - last.risk) > 1e-5 || Math.abs(point.expectedReturn - last.expectedReturn) > 1e-5) {
+      frontier.push(point);
+    }
+  }
+  return frontier;
+};
+
+// Solves one of the supported modes and caps the result at the profile's risk budget
+export const optimizeMeanVariance = ({ mu, cov, constraints, mode, targetReturn = 0, maxRisk, riskFreeRate }: MeanVarianceInput): MeanVarianceResult => {
+  // The searches below step through nearby λ, so each solve warm-starts from the closest one solved so far
+  const solved = new Map<number, DescribedPortfolio>();
+  const solveAt = (logAversion: number | null) => {
+    const key = logAversion ?? -Infinity;
+    const cached = solved.get(key);
+    if (cached) return cached;
+    const nearest = [...solved.keys()].reduce<number | null>((best, k) =>
+      (best === null || Math.abs(k - key) < Math.abs(best - key) ? k : best), null);
+    const start = nearest === null ? undefined : solved.get(nearest)?.weights;
+    const riskAversion = logAversion === null ? 0 : Math.pow(10, logAversion);
+    const portfolio = describePortfolio(solveMeanVariance(mu, cov, constraints, riskAversion, start), mu, cov, riskFreeRate);
+    solved.set(key, portfolio);
+    return portfolio;
+  };
+  const minVariance = solveAt(null);
+  const maxReturn = solveAt(MAX_LOG_AVERSION);
+  let logAversion: number | null = null;
+  // Every adjustment made to the request, in the order applied
+  const notes: string[] = [];
+
+  if (mode === 'maxSharpe') {
+    // Sharpe is unimodal along the frontier, so a golden-section search over λ suffices
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let a = MIN_LOG_AVERSION;
+    let b = MAX_LOG_AVERSION;
+    let c = b - ratio * (b - a);
+    let d = a + ratio * (b - a);
+    let sharpeC = solveAt(c).sharpeRatio;
+    let sharpeD = solveAt(d).sharpeRatio;
+    for (let i = 0; i < 30; i++) {
+      if (sharpeC >= sharpeD) {
+        b = d; d = c; sharpeD = sharpeC;
+        c = b - ratio * (b - a); sharpeC = solveAt(c).sharpeRatio;
+      } else {
+        a = c; c = d; sharpeC = sharpeD;
+        d = a + ratio * (b - a); sharpeD = solveAt(d).sharpeRatio;
+      }
+    }
+    logAversion = (a + b) / 2;
+    if (minVariance.sharpeRatio > solveAt(logAversion).sharpeRatio) logAversion = null;
+  } else if (mode === 'targetReturn') {
+    if (targetReturn >= maxReturn.expectedReturn) {
+      logAversion = MAX_LOG_AVERSION;
+      notes.push(`Target return of ${(targetReturn * 100).toFixed(1)}% exceeds the ${(maxReturn.expectedReturn * 100).toFixed(1)}% achievable within the weight bounds`);
+    } else if (targetReturn > minVariance.expectedReturn) {
+      logAversion = bisect(x => targetReturn - solveAt(x).expectedReturn, MIN_LOG_AVERSION - 3, MAX_LOG_AVERSION, 40);
+    }
+  }
+
+  let result = logAversion === null ? minVariance : solveAt(logAversion);
+  if (maxRisk && result.risk > maxRisk && logAversion !== null) {
+    const upper = logAversion;
+    if (minVariance.risk >= maxRisk) {
+      result = minVariance;
+    } else {
+      result = solveAt(bisect(x => maxRisk - solveAt(x).risk, MIN_LOG_AVERSION - 3, upper, 40));
+    }
+    notes.push(`Capped at the ${(maxRisk * 100).toFixed(0)}% risk budget of the selected risk profile`);
+  }
+
+  return { ...result, note: notes.length > 0 ? notes.join('; ') : null };
+};
+
+// Converts fractional weights to percentages with one decimal that still sum to exactly 100
+export const toPercentages = (weights: number[]): number[] => {
+  const rounded = weights.map(w => Math.round(w * 1000) / 10);
+  const drift = Math.round((100 - rounded.reduce((sum, x) => sum + x, 0)) * 10) / 10;
+  const largest = rounded.reduce((best, x, i) => (Math.abs(x) > Math.abs(rounded[best]) ? i : best), 0);
+  rounded[largest] = Math.round((rounded[largest] + drift) * 10) / 10;
+  return rounded;
+};
+
+// Builds an Allocation from values listed in ASSET_CLASSES order
+export const toAllocation = (values: number[]): Allocation => {
+  const [stocks, bonds, alternatives, cash] = values;
+  return { stocks, bonds, alternatives, cash };
+};
+
+// Asset-class weight bounds in percent, converted to fractions; long-only floors negative minimums at zero
+export const toClassBounds = (weightBounds: Record<AssetClass, WeightBound>, longOnly: boolean): Bound[] =>
+  ASSET_CLASSES.map(asset => ({
+    lower: (longOnly ? Math.max(0, weightBounds[asset].min) : weightBounds[asset].min) / 100,
+    upper: weightBounds[asset].max / 100
+  }));
+
+export const boundsAreFeasible = (bounds: Bound[]): boolean => bounds.every(b => b.lower <= b.upper)
+  && bounds.reduce((sum, b) => sum + b.lower, 0) <= 1
+  && bounds.reduce((sum, b) => sum + b.upper, 0) >= 1;
+
+export interface OptimizeAllocationInput {
+  profile: RiskProfile;
+  assumptions: CapitalMarketAssumptions;
+  mode: OptimizationMode;
+  // Arithmetic target return, used unless requiredRate is given
+  targetReturn: number;
+  // Compound rate a cash-flow plan needs; takes precedence over targetReturn
+  requiredRate?: number | null;
+  weightBounds: Record<AssetClass, WeightBound>;
+  longOnly?: boolean;
+  // Optimize every ETF in the universe (plus cash) instead of the four asset classes
+  universe?: AssetUniverse | null;
+  // Funds the security constraints refer to when optimizing asset classes; defaults to ASSET_UNIVERSE
+  funds?: AssetUniverse;
+  constraints?: PortfolioConstraints;
+  // Starting allocation for the turnover limit
+  current?: Allocation | null;
+  // Frontier from allocationFrontier for the same inputs; computed here when omitted
+  frontier?: FrontierPoint[] | null;
+}
+
+// The inputs the efficient frontier depends on; mode, target and risk budget do not move it
+export type FrontierInput = Pick<OptimizeAllocationInput, 'assumptions' | 'weightBounds' | 'longOnly' | 'universe' | 'funds' | 'constraints'>;
+
+interface AllocationProblem {
+  assets: { id: string; assetClass: AssetClass; expectedReturn: number; risk: number }[];
+  classOf: number[];
+  mu: number[];
+  cov: Matrix;
+  weightConstraints: WeightConstraints;
+}
+
+// Assets, moments and weight constraints to optimize over, for inputs whose constraints do not conflict
+const allocationProblem = ({
+  assumptions, weightBounds, longOnly = true, universe = null, funds = ASSET_UNIVERSE, constraints = NO_CONSTRAINTS
+}: FrontierInput): AllocationProblem => {
+  const classBounds = effectiveClassBounds(toClassBounds(weightBounds, longOnly), universe ?? funds, constraints, longOnly);
+  const eligible = universe ? excludeSecurities(universe, constraints) : null;
+
+  const assets: AllocationProblem['assets'] = eligible
+    ? [
+        ...(['stocks', 'bonds', 'alternatives'] as const).flatMap(assetClass => eligible[assetClass].map(security => ({
+          id: security.symbol, assetClass, ...securityAssumption(assumptions, security.symbol, assetClass)
+        }))),
+        { id: 'cash', assetClass: 'cash', expectedReturn: assumptions.returns.cash, risk: assumptions.risks.cash }
+      ]
+    : ASSET_CLASSES.map(asset => ({ id: asset, assetClass: asset, expectedReturn: assumptions.returns[asset], risk: assumptions.risks[asset] }));
+
+  const mu = assets.map(a => a.expectedReturn);
+  const classOf = assets.map(a => ASSET_CLASSES.indexOf(a.assetClass));
+  // Asset classes use their correlations as given; securities only load partly on their class factor
+  const loading = universe ? INTRA_CLASS_CORRELATION : 1;
+  const assetCorrelations = assets.map((_a, i) => assets.map((_b, j) =>
+    (i === j ? 1 : loading * assumptions.correlations[classOf[i]][classOf[j]])));
+  const cov = buildCovariance(assets.map(a => a.risk), assetCorrelations);
+  const bounds = assets.map(a => (eligible && a.assetClass !== 'cash' ? securityBound(a.id, constraints, longOnly) : { lower: longOnly ? 0 : -1, upper: 1 }));
+  return {
+    assets,
+    classOf,
+    mu,
+    cov,
+    weightConstraints: {
+      lower: bounds.map(bound => bound.lower),
+      upper: bounds.map(bound => bound.upper),
+      groups: ASSET_CLASSES.map((asset, k) => ({
+        indices: assets.flatMap((a, i) => (a.assetClass === asset ? [i] : [])),
+        ...classBounds[k]
+      }))
+    }
+  };
+};
+
+const frontierOf = ({ mu, cov, weightConstraints }: AllocationProblem, riskFreeRate: number): FrontierPoint[] =>
+  efficientFrontier(mu, cov, weightConstraints, riskFreeRate).map(point => ({
+    risk: point.risk * 100,
+    return: point.expectedReturn * 100
+  }));
+
+// Efficient frontier in percent; empty when the constraints conflict. It is the slowest part of an
+// optimization, so callers that re-optimize as the mode or target changes can compute it once
+export const allocationFrontier = (input: FrontierInput): FrontierPoint[] => {
+  const { weightBounds, longOnly = true, universe = null, funds = ASSET_UNIVERSE, constraints = NO_CONSTRAINTS } = input;
+  if (explainConstraintConflicts(toClassBounds(weightBounds, longOnly), universe ?? funds, constraints, longOnly).length > 0) return [];
+  return frontierOf(allocationProblem(input), input.assumptions.riskFreeRate);
+};
+
+export interface OptimizedAllocation {
+  allocation: Allocation;
+  securityWeights: SecurityWeight[];
+  frontier: FrontierPoint[];
+  metrics: FrontierPoint | null;
+  note: string | null;
+  // Why the constraints cannot all hold; the profile's model allocation is returned instead
+  conflicts: string[];
+}
+
+// Optimizes the asset-class allocation; conflicting constraints fall back to the profile's model allocation
+export const optimizeAllocation = ({
+  profile, assumptions, mode, targetReturn, requiredRate = null, weightBounds, longOnly = true, universe = null,
+  funds = ASSET_UNIVERSE, constraints = NO_CONSTRAINTS, current = null, frontier = null
+}: OptimizeAllocationInput): OptimizedAllocation => {
+  const fallback = (conflicts: string[]): OptimizedAllocation => ({
+    allocation: toAllocation(ASSET_CLASSES.map(asset => profile[asset])), securityWeights: [], frontier: [], metrics: null, note: null, conflicts
+  });
+  const conflicts = explainConstraintConflicts(toClassBounds(weightBounds, longOnly), universe ?? funds, constraints, longOnly);
+  if (conflicts.length > 0) return fallback(conflicts);
+  const problem = allocationProblem({ assumptions, weightBounds, longOnly, universe, funds, constraints });
+  const { assets, classOf, mu, cov, weightConstraints } = problem;
+
+  const solve = (target: number) => optimizeMeanVariance({
+    mu, cov, constraints: weightConstraints,
+    mode,
+    targetReturn: target,
+    maxRisk: profile.maxRisk,
+    riskFreeRate: assumptions.riskFreeRate
+  });
+  // The plan's required rate is a compound (geometric) rate; the optimizer targets arithmetic
+  // returns, so re-solve once with the volatility drag of the first solution added back
+  let result = solve(requiredRate ?? targetReturn);
+  if (requiredRate !== null) result = solve(requiredRate + (result.risk * result.risk) / 2);
+
+  const classTotals = (weights: number[]) => ASSET_CLASSES.map(asset =>
+    weights.reduce((sum, w, i) => sum + (assets[i].assetClass === asset ? w : 0), 0));
+
+  // Turnover limit: the feasible point nearest the current allocation, moved as far toward the optimum as the limit allows
+  if (current && constraints.maxTurnover !== null) {
+    const maxTurnover = constraints.maxTurnover / 100;
+    const from = ASSET_CLASSES.map(asset => current[asset] / 100);
+    const turnoverOf = (weights: number[]) => oneWayTurnover(from, classTotals(weights));
+    if (turnoverOf(result.weights) > maxTurnover + 1e-9) {
+      const members = classOf.map(k => classOf.filter(other => other === k).length);
+      const start = projectWeights(classOf.map((k, i) => from[k] / members[i]), weightConstraints);
+      const forced = turnoverOf(start);
+      if (forced > maxTurnover + 1e-6) {
+        return fallback([`Bringing the current portfolio within the other constraints takes ${(forced * 100).toFixed(1)}% turnover, above the ${constraints.maxTurnover}% maximum`]);
+      }
+      const blend = (alpha: number) => start.map((w, i) => w + alpha * (result.weights[i] - w));
+      const alpha = bisect(a => maxTurnover - turnoverOf(blend(a)), 0, 1);
+      result = {
+        ...describePortfolio(blend(alpha), mu, cov, assumptions.riskFreeRate),
+        note: [result.note, `Limited to ${constraints.maxTurnover}% turnover: moved ${Math.round(alpha * 100)}% of the way to the unconstrained optimum`]
+          .filter(Boolean).join('; ')
+      };
+    }
+  }
+
+  return {
+    allocation: toAllocation(toPercentages(classTotals(result.weights))),
+    securityWeights: assets.map((a, i) => ({ id: a.id, assetClass: a.assetClass, weight: result.weights[i] })),
+    frontier: frontier ?? frontierOf(problem, assumptions.riskFreeRate),
+    metrics: { risk: result.risk * 100, return: result.expectedReturn * 100 },
+    note: result.note,
+    conflicts: []
+  };
+};
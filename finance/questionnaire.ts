@@ -0,0 +1,144 @@
+import { ASSET_CLASSES } from './assumptions';
+import { toPercentages } from './optimizer';
+import type { AssetClass, RiskLevel, RiskProfile, RiskProfiles } from './types';
+
+export type RiskDimension = 'capacity' | 'knowledge' | 'behaviour' | 'horizon';
+
+export interface RiskQuestion {
+  id: string;
+  dimension: RiskDimension;
+  text: string;
+  options: string[];
+}
+
+// Option index chosen for each question id
+export type QuestionnaireAnswers = Record<string, number>;
+
+export interface RiskAssessment {
+  completedAt: string;
+  answers: { question: string; answer: string; points: number }[];
+  dimensionScores: Record<RiskDimension, number>;
+  score: number;
+  profile: RiskProfile & { name: string };
+  rationale: string[];
+}
+
+// Suitability questionnaire; each option scores 0 (least risk) to 4 (most risk)
+export const RISK_QUESTIONS: RiskQuestion[] = [
+  {
+    id: 'netWorthShare', dimension: 'capacity',
+    text: 'What share of your total net worth does this portfolio represent?',
+    options: ['More than 75%', '50–75%', '25–50%', '10–25%', 'Less than 10%']
+  },
+  {
+    id: 'emergencyFund', dimension: 'capacity',
+    text: 'How many months of expenses could you cover from cash savings and stable income without selling investments?',
+    options: ['Less than 1 month', '1–3 months', '3–6 months', '6–12 months', 'More than 12 months']
+  },
+  {
+    id: 'knowledge', dimension: 'knowledge',
+    text: 'How would you describe your investment knowledge?',
+    options: ['None', 'Basic (savings, CDs)', 'Moderate (funds and ETFs)', 'Good (individual stocks and bonds)', 'Extensive (derivatives, alternatives)']
+  },
+  {
+    id: 'experience', dimension: 'knowledge',
+    text: 'How long have you been investing in stocks or stock funds?',
+    options: ['Never', 'Less than 2 years', '2–5 years', '5–10 years', 'More than 10 years']
+  },
+  {
+    id: 'drawdownReaction', dimension: 'behaviour',
+    text: 'Your portfolio falls 20% in three months. What do you do?',
+    options: ['Sell everything', 'Sell some to limit losses', 'Do nothing', 'Rebalance back to target', 'Invest more']
+  },
+  {
+    id: 'lossTolerance', dimension: 'behaviour',
+    text: 'What is the largest one-year loss you could accept without changing your plan?',
+    options: ['None', 'Up to 5%', 'Up to 15%', 'Up to 25%', 'More than 25%']
+  },
+  {
+    id: 'horizon', dimension: 'horizon',
+    text: 'When do you expect to need a significant part of this money?',
+    options: ['Within 2 years', '2–5 years', '5–10 years', '10–20 years', 'More than 20 years']
+  }
+];
+
+export const RISK_DIMENSIONS: Record<RiskDimension, { label: string; weight: number }> = {
+  capacity: { label: 'Capacity for loss', weight: 0.3 },
+  knowledge: { label: 'Investment knowledge', weight: 0.15 },
+  behaviour: { label: 'Reaction to drawdowns', weight: 0.3 },
+  horizon: { label: 'Time horizon', weight: 0.25 }
+};
+
+const DIMENSIONS = Object.keys(RISK_DIMENSIONS) as RiskDimension[];
+
+const PROFILE_BANDS = [
+  { upTo: 20, name: 'Conservative' },
+  { upTo: 40, name: 'Moderately Conservative' },
+  { upTo: 60, name: 'Moderate' },
+  { upTo: 80, name: 'Moderately Aggressive' },
+  { upTo: 100, name: 'Aggressive' }
+];
+
+// Scores anchoring the low/medium/high risk profiles; scores in between interpolate linearly
+const PROFILE_ANCHORS: { score: number; key: RiskLevel }[] = [{ score: 20, key: 'low' }, { score: 50, key: 'medium' }, { score: 80, key: 'high' }];
+
+export const interpolateRiskProfile = (riskProfiles: RiskProfiles, score: number): RiskProfile & { name: string } => {
+  const upper = PROFILE_ANCHORS.findIndex(anchor => anchor.score >= score);
+  const last = PROFILE_ANCHORS[PROFILE_ANCHORS.length - 1];
+  const [from, to] = upper === -1
+    ? [last, last]
+    : upper === 0
+      ? [PROFILE_ANCHORS[0], PROFILE_ANCHORS[0]]
+      : [PROFILE_ANCHORS[upper - 1], PROFILE_ANCHORS[upper]];
+  const t = to.score === from.score ? 0 : (score - from.score) / (to.score - from.score);
+  const mix = (field: AssetClass | 'maxRisk' | 'targetReturn') =>
+    riskProfiles[from.key][field] + t * (riskProfiles[to.key][field] - riskProfiles[from.key][field]);
+  const [stocks, bonds, alternatives, cash] = toPercentages(ASSET_CLASSES.map(asset => mix(asset) / 100));
+  return {
+    name: (PROFILE_BANDS.find(band => score <= band.upTo) ?? PROFILE_BANDS[PROFILE_BANDS.length - 1]).name,
+    stocks,
+    bonds,
+    alternatives,
+    cash,
+    maxRisk: mix('maxRisk'),
+    targetReturn: mix('targetReturn')
+  };
+};
+
+// Capacity and horizon cap the score: willingness alone cannot justify risk the client cannot bear
+export const scoreRiskQuestionnaire = (answers: QuestionnaireAnswers, riskProfiles: RiskProfiles, completedAt = new Date()): RiskAssessment => {
+  const dimensionScores = {} as Record<RiskDimension, number>;
+  DIMENSIONS.forEach(dimension => {
+    const questions = RISK_QUESTIONS.filter(question => question.dimension === dimension);
+    const points = questions.reduce((sum, question) => sum + answers[question.id], 0);
+    dimensionScores[dimension] = (points / (questions.length * 4)) * 100;
+  });
+  const weighted = DIMENSIONS.reduce((sum, dimension) => sum + RISK_DIMENSIONS[dimension].weight * dimensionScores[dimension], 0);
+  const ceiling = 25 + 0.75 * Math.min(dimensionScores.capacity, dimensionScores.horizon);
+  const score = Math.round(Math.min(weighted, ceiling));
+
+  const profile = interpolateRiskProfile(riskProfiles, score);
+  const rationale = [
+    ...DIMENSIONS.map(dimension => {
+      const { label, weight } = RISK_DIMENSIONS[dimension];
+      return `${label}: ${dimensionScores[dimension].toFixed(0)}/100 (weight ${(weight * 100).toFixed(0)}%)`;
+    }),
+    weighted > ceiling
+      ? `Weighted score of ${weighted.toFixed(0)} capped at ${ceiling.toFixed(0)} by limited capacity for loss or time horizon`
+      : `Weighted score of ${weighted.toFixed(0)}`,
+    `Score ${score} maps to the ${profile.name} profile: ${profile.stocks}% stocks, ${(profile.maxRisk * 100).toFixed(1)}% maximum volatility`
+  ];
+
+  return {
+    completedAt: completedAt.toISOString(),
+    answers: RISK_QUESTIONS.map(question => ({
+      question: question.text,
+      answer: question.options[answers[question.id]],
+      points: answers[question.id]
+    })),
+    dimensionScores,
+    score,
+    profile,
+    rationale
+  };
+};
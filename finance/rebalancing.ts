@@ -0,0 +1,90 @@
+import { REBALANCE_INTERVALS } from './backtest';
+import { cholesky, dot } from './matrix';
+import { createNormal, createRandom } from './simulation';
+import type { Matrix, RebalanceFrequency } from './types';
+
+export interface RebalancePolicy {
+  mode: 'calendar' | 'threshold' | 'hybrid';
+  // Drift bands as fractions (0.05 = 5 points); 0 disables a band
+  absoluteBand: number;
+  relativeBand: number;
+  costBps: number;
+}
+
+export interface RebalanceEvent {
+  month: number;
+  turnover: number;
+  maxDrift: number;
+}
+
+export const driftExceedsBands = (weights: number[], targets: number[], { absoluteBand, relativeBand }: Pick<RebalancePolicy, 'absoluteBand' | 'relativeBand'>): boolean =>
+  weights.some((weight, i) => {
+    const drift = Math.abs(weight - targets[i]);
+    return (absoluteBand > 0 && drift > absoluteBand)
+      || (relativeBand > 0 && targets[i] > 0 && drift / targets[i] > relativeBand);
+  });
+
+export interface RebalancingSimulationInput {
+  targets: number[];
+  mu: number[];
+  cov: Matrix;
+  policy: RebalancePolicy;
+  rebalanceFreq: RebalanceFrequency;
+  years: number;
+  paths?: number;
+  seed?: number;
+}
+
+export interface RebalancingSimulation {
+  events: RebalanceEvent[];
+  rebalancesPerYear: number;
+  annualTurnover: number;
+  annualCostDrag: number;
+}
+
+// Simulates monthly asset-class drift under a calendar, threshold or hybrid policy.
+// Path 0 doubles as the representative schedule shown in the timeline.
+export const simulateRebalancing = ({ targets, mu, cov, policy, rebalanceFreq, years, paths = 200, seed = 1 }: RebalancingSimulationInput): RebalancingSimulation => {
+  const normal = createNormal(createRandom(seed));
+  const factor = cholesky(cov.map(row => row.map(x => x / 12)));
+  const drift = mu.map((m, i) => Math.log(1 + m) / 12 - cov[i][i] / 24);
+  const interval = REBALANCE_INTERVALS[rebalanceFreq] ?? 3;
+  const months = years * 12;
+
+  let totalRebalances = 0;
+  let totalTurnover = 0;
+  let events: RebalanceEvent[] = [];
+
+  for (let path = 0; path < paths; path++) {
+    let weights = [...targets];
+    const pathEvents: RebalanceEvent[] = [];
+    for (let month = 1; month <= months; month++) {
+      const shocks = targets.map(() => normal());
+      const grown = weights.map((w, i) => w * Math.exp(drift[i] + dot(factor[i], shocks)));
+      const total = grown.reduce((sum, w) => sum + w, 0);
+      weights = grown.map(w => w / total);
+
+      const calendarDue = month % interval === 0;
+      const outOfBand = policy.mode !== 'calendar' && driftExceedsBands(weights, targets, policy);
+      const due = policy.mode === 'calendar' ? calendarDue : policy.mode === 'threshold' ? outOfBand : calendarDue && outOfBand;
+      if (!due) continue;
+
+      const turnover = weights.reduce((sum, w, i) => sum + Math.abs(w - targets[i]), 0) / 2;
+      const maxDrift = Math.max(...weights.map((w, i) => Math.abs(w - targets[i])));
+      pathEvents.push({ month, turnover, maxDrift });
+      totalRebalances += 1;
+      totalTurnover += turnover;
+      weights = [...targets];
+    }
+    if (path === 0) events = pathEvents;
+  }
+
+  const pathYears = paths * years || 1;
+  const annualTurnover = totalTurnover / pathYears;
+  return {
+    events,
+    rebalancesPerYear: totalRebalances / pathYears,
+    annualTurnover,
+    annualCostDrag: annualTurnover * policy.costBps / 10000
+  };
+};
@@ -0,0 +1,146 @@
+import { ASSET_CLASSES } from './assumptions';
+import { matVec, portfolioVariance } from './matrix';
+import { percentile, runMonteCarlo } from './simulation';
+import type { Allocation, AssetClass, Matrix } from './types';
+
+export const VAR_CONFIDENCE_LEVELS = [0.95, 0.99];
+
+// Losses are positive fractions of portfolio value over the horizon
+export interface TailRisk {
+  confidence: number;
+  valueAtRisk: number;
+  conditionalVaR: number;
+}
+
+export const normalDensity = (x: number): number => Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+
+// Inverse standard normal CDF (Acklam's rational approximation, relative error below 1.2e-9)
+export const normalQuantile = (p: number): number => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const tail = (q: number) => (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5])
+    / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q
+    / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+export interface ParametricTailRiskInput {
+  expectedReturn: number;
+  risk: number;
+  confidence: number;
+  horizonYears: number;
+}
+
+// Normal-distribution VaR and CVaR, with the mean and volatility scaled to the horizon
+export const parametricTailRisk = ({ expectedReturn, risk, confidence, horizonYears }: ParametricTailRiskInput): TailRisk => {
+  const mean = expectedReturn * horizonYears;
+  const sd = risk * Math.sqrt(horizonYears);
+  const z = normalQuantile(confidence);
+  return {
+    confidence,
+    valueAtRisk: z * sd - mean,
+    conditionalVaR: sd * normalDensity(z) / (1 - confidence) - mean
+  };
+};
+
+// Empirical VaR (interpolated loss quantile) and CVaR (average of returns at or beyond it)
+export const historicalTailRisk = (returns: number[], confidence: number): TailRisk | null => {
+  if (returns.length === 0) return null;
+  const sorted = [...returns].sort((a, b) => a - b);
+  const cutoff = percentile(sorted, 1 - confidence);
+  const tail = sorted.filter(r => r <= cutoff);
+  return {
+    confidence,
+    valueAtRisk: -cutoff,
+    conditionalVaR: -tail.reduce((sum, r) => sum + r, 0) / tail.length
+  };
+};
+
+export interface ExpectedDrawdownInput {
+  expectedReturn: number;
+  risk: number;
+  years: number;
+  paths?: number;
+  seed?: number;
+}
+
+// Mean of the worst peak-to-trough loss across simulated paths, without cash flows
+export const expectedMaxDrawdown = ({ expectedReturn, risk, years, paths = 1000, seed = 1 }: ExpectedDrawdownInput): number =>
+  runMonteCarlo({ initialValue: 1, expectedReturn, risk, years, goal: 0, paths, seed }).expectedMaxDrawdown;
+
+export interface RiskContribution {
+  assetClass: AssetClass;
+  weight: number;
+  // ∂σ/∂w: volatility added per unit of extra weight
+  marginal: number;
+  // weight × marginal; the contributions sum to the portfolio volatility
+  contribution: number;
+  percent: number;
+}
+
+export const riskContributions = (allocation: Allocation, cov: Matrix): RiskContribution[] => {
+  const weights = ASSET_CLASSES.map(asset => allocation[asset] / 100);
+  const risk = Math.sqrt(Math.max(0, portfolioVariance(weights, cov)));
+  const covTimesWeights = matVec(cov, weights);
+  return ASSET_CLASSES.map((assetClass, i) => {
+    const marginal = risk > 0 ? covTimesWeights[i] / risk : 0;
+    const contribution = weights[i] * marginal;
+    return { assetClass, weight: weights[i], marginal, contribution, percent: risk > 0 ? contribution / risk : 0 };
+  });
+};
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  period: string;
+  // Total return of each asset class over the episode
+  shocks: Allocation;
+}
+
+// Approximate peak-to-trough returns of broad proxies: global equities, investment-grade bonds,
+// an equal blend of REITs, gold and commodities, and Treasury bills
+export const STRESS_SCENARIOS: StressScenario[] = [
+  {
+    id: 'gfc-2008',
+    name: '2008 Global Financial Crisis',
+    period: 'Oct 2007 – Mar 2009',
+    shocks: { stocks: -0.54, bonds: 0.06, alternatives: -0.42, cash: 0.02 }
+  },
+  {
+    id: 'covid-2020',
+    name: '2020 COVID Crash',
+    period: 'Feb – Mar 2020',
+    shocks: { stocks: -0.34, bonds: -0.02, alternatives: -0.25, cash: 0.003 }
+  },
+  {
+    id: 'rates-2022',
+    name: '2022 Rate Shock',
+    period: 'Jan – Oct 2022',
+    shocks: { stocks: -0.25, bonds: -0.16, alternatives: -0.08, cash: 0.01 }
+  }
+];
+
+export interface StressResult {
+  scenario: StressScenario;
+  portfolioReturn: number;
+  // Each asset class's share of portfolioReturn
+  byClass: Allocation;
+}
+
+export const applyStressScenario = (allocation: Allocation, scenario: StressScenario): StressResult => {
+  const byClass = Object.fromEntries(ASSET_CLASSES.map(asset => [asset, allocation[asset] / 100 * scenario.shocks[asset]])) as Allocation;
+  return {
+    scenario,
+    portfolioReturn: ASSET_CLASSES.reduce((sum, asset) => sum + byClass[asset], 0),
+    byClass
+  };
+};
@@ -0,0 +1,176 @@
+import { ASSET_CLASSES, ASSET_UNIVERSE, RISK_PROFILES, tickersOf } from './assumptions';
+import { toTickerWeights } from './backtest';
+import { buildCashFlowSchedule, requiredGrowthRate } from './cashflows';
+import type { PlannedGoal, RequiredRate, WithdrawalPlan } from './cashflows';
+import { DEFAULT_ASSUMPTIONS, loadAssumptions } from './cma';
+import { portfolioExpenseRatio, projectNetOfFees } from './fees';
+import type { FeeProjection } from './fees';
+import { classifyTicker } from './holdings';
+import { calculateMetrics, growthRate } from './metrics';
+import { NO_CONSTRAINTS, excludeSecurities } from './constraints';
+import type { PortfolioConstraints } from './constraints';
+import { optimizeAllocation } from './optimizer';
+import { describeSecurityWeights, selectSecurities, withCustomSecurities } from './selection';
+import type { CustomSecurity, SecurityAllocation, SelectionPolicy } from './selection';
+import type {
+  Allocation, AssetClass, CapitalMarketAssumptions, OptimizationMode, PortfolioMetrics, RiskLevel, RiskProfile, WeightBound
+} from './types';
+
+export const DEFAULT_WEIGHT_BOUNDS: Record<AssetClass, WeightBound> = {
+  stocks: { min: 20, max: 90 },
+  bonds: { min: 10, max: 70 },
+  alternatives: { min: 0, max: 20 },
+  cash: { min: 0, max: 100 }
+};
+
+// A headless scenario, in the same units as the dashboard inputs (percentages for returns,
+// allocations, bounds and inflation; today's dollars for amounts). Everything but the current
+// portfolio is optional.
+export interface Scenario {
+  currentPortfolio: Allocation;
+  riskTolerance?: RiskLevel;
+  // Overrides riskTolerance, e.g. a profile produced by the questionnaire
+  riskProfile?: RiskProfile;
+  expectedReturn?: number;
+  optimizationMode?: OptimizationMode;
+  returnTarget?: 'slider' | 'plan';
+  universe?: 'assetClasses' | 'securities';
+  longOnly?: boolean;
+  weightBounds?: Record<AssetClass, WeightBound>;
+  investmentAmount?: number;
+  timeHorizon?: number;
+  annualContribution?: number;
+  withdrawal?: WithdrawalPlan;
+  goals?: PlannedGoal[];
+  inflationRate?: number;
+  // Annual advisory fee in percent, charged on top of the funds' expense ratios
+  advisoryFee?: number;
+  assumptions?: CapitalMarketAssumptions;
+  selectionPolicy?: SelectionPolicy;
+  customSecurities?: CustomSecurity[];
+  constraints?: PortfolioConstraints;
+}
+
+export interface ScenarioResult {
+  profile: RiskProfile;
+  requiredReturn: RequiredRate;
+  current: { allocation: Allocation; metrics: PortfolioMetrics };
+  optimized: { allocation: Allocation; metrics: PortfolioMetrics; note: string | null; conflicts: string[]; securities: SecurityAllocation[] };
+  // Total annual fee rate (fractions) and the fees paid and ending value they cost over the horizon
+  fees: Record<'current' | 'optimized', { rate: number; paid: number; cost: number }>;
+  // Gross and net-of-fees values by year
+  projection: { year: number; current: number; optimized: number; currentNet: number; optimizedNet: number }[];
+}
+
+// Checks a scenario read from JSON. Inline assumptions use the assumptions file format
+// (data/capital_market_assumptions.json) and are validated like a loaded file.
+export const parseScenario = (value: unknown): Scenario => {
+  const scenario = value as Scenario;
+  if (!scenario || typeof scenario !== 'object' || !scenario.currentPortfolio) {
+    throw new Error('Scenario must be an object with a currentPortfolio allocation');
+  }
+  const missing = ASSET_CLASSES.filter(asset => !Number.isFinite(scenario.currentPortfolio[asset]));
+  if (missing.length > 0) throw new Error(`currentPortfolio is missing a number for: ${missing.join(', ')}`);
+  if (scenario.riskTolerance && !['low', 'medium', 'high'].includes(scenario.riskTolerance)) {
+    throw new Error(`riskTolerance must be low, medium or high, not "${scenario.riskTolerance}"`);
+  }
+  if (scenario.advisoryFee !== undefined && !(Number.isFinite(scenario.advisoryFee) && scenario.advisoryFee >= 0)) {
+    throw new Error('advisoryFee must be a non-negative percentage');
+  }
+  return scenario.assumptions === undefined ? scenario : { ...scenario, assumptions: loadAssumptions(scenario.assumptions) };
+};
+
+export const runScenario = (scenario: Scenario): ScenarioResult => {
+  const {
+    currentPortfolio,
+    riskTolerance = 'medium',
+    expectedReturn = 8,
+    optimizationMode = 'targetReturn',
+    returnTarget = 'slider',
+    universe = 'assetClasses',
+    longOnly = true,
+    weightBounds = DEFAULT_WEIGHT_BOUNDS,
+    investmentAmount = 100000,
+    timeHorizon = 10,
+    annualContribution = 0,
+    withdrawal = { amount: 0, startYear: timeHorizon },
+    goals = [],
+    inflationRate = 2.5,
+    advisoryFee = 1,
+    selectionPolicy,
+    customSecurities = [],
+    constraints = NO_CONSTRAINTS
+  } = scenario;
+  const { universe: securityUniverse, assumptions } = withCustomSecurities(ASSET_UNIVERSE, scenario.assumptions ?? DEFAULT_ASSUMPTIONS, customSecurities);
+  const profile = scenario.riskProfile ?? RISK_PROFILES[riskTolerance];
+
+  const schedule = buildCashFlowSchedule({
+    years: timeHorizon,
+    contribution: annualContribution,
+    withdrawal,
+    goals,
+    inflation: inflationRate / 100
+  });
+  const requiredReturn = requiredGrowthRate({ initialValue: investmentAmount, schedule });
+
+  const optimization = optimizeAllocation({
+    profile,
+    assumptions,
+    mode: optimizationMode,
+    targetReturn: expectedReturn / 100,
+    requiredRate: returnTarget === 'plan' && requiredReturn.status === 'ok' ? requiredReturn.rate : null,
+    weightBounds,
+    longOnly,
+    universe: universe === 'securities' ? securityUniverse : null,
+    funds: securityUniverse,
+    constraints,
+    current: currentPortfolio
+  });
+  const selection = universe === 'securities'
+    ? describeSecurityWeights(optimization.securityWeights, securityUniverse, assumptions)
+    : selectSecurities({
+      allocation: optimization.allocation,
+      universe: excludeSecurities(securityUniverse, constraints),
+      assumptions,
+      profile,
+      policy: selectionPolicy,
+      bounds: constraints.securityBounds
+    });
+
+  const currentMetrics = calculateMetrics(currentPortfolio, assumptions);
+  const optimizedMetrics = calculateMetrics(optimization.allocation, assumptions);
+
+  // Fees as the dashboard charges them: the current classes split evenly across their funds
+  const tickersByClass = tickersOf(securityUniverse);
+  const currentSecurityWeights = Object.entries(toTickerWeights(currentPortfolio, tickersByClass, Object.values(tickersByClass).flat()).weights)
+    .flatMap(([id, weight]) => {
+      const assetClass = id === 'cash' ? 'cash' : classifyTicker(id, tickersByClass);
+      return assetClass ? [{ id, assetClass, weight }] : [];
+    });
+  const feeRates = {
+    current: portfolioExpenseRatio(currentSecurityWeights, securityUniverse) + advisoryFee / 100,
+    optimized: portfolioExpenseRatio(selection.securityWeights, securityUniverse) + advisoryFee / 100
+  };
+  const currentPlan = projectNetOfFees({ initialValue: investmentAmount, growth: growthRate(currentMetrics), feeRate: feeRates.current, schedule });
+  const optimizedPlan = projectNetOfFees({ initialValue: investmentAmount, growth: growthRate(optimizedMetrics), feeRate: feeRates.optimized, schedule });
+  const feeSummary = (rate: number, plan: FeeProjection) => ({
+    rate,
+    paid: Math.round(plan.cumulativeFees[plan.cumulativeFees.length - 1]),
+    cost: Math.round(plan.cost)
+  });
+
+  return {
+    profile,
+    requiredReturn,
+    current: { allocation: currentPortfolio, metrics: currentMetrics },
+    optimized: { allocation: optimization.allocation, metrics: optimizedMetrics, note: optimization.note, conflicts: optimization.conflicts, securities: selection.holdings },
+    fees: { current: feeSummary(feeRates.current, currentPlan), optimized: feeSummary(feeRates.optimized, optimizedPlan) },
+    projection: schedule.map(({ year }) => ({
+      year,
+      current: Math.round(currentPlan.gross.values[year]),
+      optimized: Math.round(optimizedPlan.gross.values[year]),
+      currentNet: Math.round(currentPlan.net.values[year]),
+      optimizedNet: Math.round(optimizedPlan.net.values[year])
+    }))
+  };
+};
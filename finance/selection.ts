@@ -0,0 +1,211 @@
+import { ASSET_CLASSES, INTRA_CLASS_CORRELATION } from './assumptions';
+import { assumptionLabel, securityAssumption } from './cma';
+import { buildCovariance, dot, portfolioVariance } from './matrix';
+import { solveMeanVariance } from './optimizer';
+import type {
+  Allocation, AssetClass, AssetUniverse, CapitalMarketAssumptions, PortfolioMetrics, ReturnRisk, RiskProfile, Security, SecurityWeight,
+  WeightBound, WeightConstraints
+} from './types';
+
+export type FundClass = keyof AssetUniverse;
+
+// A fund the user adds to the universe with their own return and risk estimate
+export interface CustomSecurity extends Security, ReturnRisk {
+  assetClass: FundClass;
+}
+
+export interface SelectionPolicy {
+  // Share of the stock allocation held in international funds (0–1)
+  internationalShare: number;
+  // Largest share of its asset class each category may take (0–1), e.g. { Growth: 0.25 }
+  categoryCaps: Record<string, number>;
+}
+
+export const INTERNATIONAL_CATEGORY = 'International';
+
+export const DEFAULT_SELECTION_POLICY: SelectionPolicy = {
+  internationalShare: 0.3,
+  categoryCaps: { Growth: 0.25 }
+};
+
+export interface SecurityAllocation extends Security, ReturnRisk {
+  assetClass: AssetClass;
+  // Percent of the whole portfolio
+  weight: number;
+  // Fraction of its asset class
+  classShare: number;
+}
+
+export interface SecuritySelection {
+  holdings: SecurityAllocation[];
+  securityWeights: SecurityWeight[];
+  metrics: PortfolioMetrics;
+  notes: string[];
+}
+
+export const validateCustomSecurity = (security: CustomSecurity, universe: AssetUniverse): string[] => {
+  const errors: string[] = [];
+  const symbol = security.symbol.trim().toUpperCase();
+  if (!/^[A-Z0-9.-]{1,10}$/.test(symbol)) errors.push('Symbol must be 1–10 letters or digits');
+  if (ASSET_CLASSES.some(asset => asset !== 'cash' && universe[asset].some(existing => existing.symbol === symbol))) {
+    errors.push(`${symbol} is already in the universe`);
+  }
+  if (!Number.isFinite(security.expectedReturn)) errors.push('Expected return must be a number');
+  if (!Number.isFinite(security.risk) || security.risk < 0) errors.push('Risk must be zero or more');
+  if (!(security.price > 0)) errors.push('Price must be above zero');
+  if (!Number.isFinite(security.expenseRatio) || security.expenseRatio < 0) errors.push('Expense ratio must be zero or more');
+  if (!security.category.trim()) errors.push('Category is required');
+  return errors;
+};
+
+// Adds custom funds to the universe and their estimates to the assumption set
+export const withCustomSecurities = (
+  universe: AssetUniverse,
+  assumptions: CapitalMarketAssumptions,
+  custom: CustomSecurity[]
+): { universe: AssetUniverse; assumptions: CapitalMarketAssumptions } => {
+  const fundsIn = (assetClass: FundClass) => [
+    ...universe[assetClass],
+    ...custom.filter(security => security.assetClass === assetClass)
+      .map(({ symbol, name, price, category, taxEfficiency, expenseRatio }) => ({ symbol, name, price, category, taxEfficiency, expenseRatio }))
+  ];
+  return {
+    universe: { stocks: fundsIn('stocks'), bonds: fundsIn('bonds'), alternatives: fundsIn('alternatives') },
+    assumptions: {
+      ...assumptions,
+      securities: {
+        ...assumptions.securities,
+        ...Object.fromEntries(custom.map(({ symbol, expectedReturn, risk }) => [symbol, { expectedReturn, risk }]))
+      }
+    }
+  };
+};
+
+// Security-level return, risk and Sharpe ratio, with funds loading on their class factor as in the optimizer
+export const describeSecurityWeights = (
+  securityWeights: SecurityWeight[],
+  universe: AssetUniverse,
+  assumptions: CapitalMarketAssumptions,
+  notes: string[] = []
+): SecuritySelection => {
+  const held = securityWeights.filter(item => Math.abs(item.weight) > 1e-6);
+  const estimates = held.map(item => (item.assetClass === 'cash'
+    ? { expectedReturn: assumptions.returns.cash, risk: assumptions.risks.cash }
+    : securityAssumption(assumptions, item.id, item.assetClass)));
+  const classIndex = held.map(item => ASSET_CLASSES.indexOf(item.assetClass));
+  const cov = buildCovariance(estimates.map(e => e.risk), held.map((_a, i) => held.map((_b, j) =>
+    (i === j ? 1 : INTRA_CLASS_CORRELATION * assumptions.correlations[classIndex[i]][classIndex[j]]))));
+  const weights = held.map(item => item.weight);
+  const expectedReturn = dot(weights, estimates.map(e => e.expectedReturn));
+  const risk = Math.sqrt(Math.max(0, portfolioVariance(weights, cov)));
+  const classTotals = Object.fromEntries(ASSET_CLASSES.map(asset => [asset, 0])) as Allocation;
+  held.forEach(item => { classTotals[item.assetClass] += item.weight; });
+
+  return {
+    holdings: held.map((item, i) => {
+      const security = item.assetClass === 'cash' ? undefined : universe[item.assetClass].find(fund => fund.symbol === item.id);
+      return {
+        symbol: item.id === 'cash' ? 'CASH' : item.id,
+        name: security?.name ?? 'Cash',
+        price: security?.price ?? 1,
+        category: security?.category ?? 'Cash',
+        taxEfficiency: security?.taxEfficiency ?? 'efficient',
+        expenseRatio: security?.expenseRatio ?? 0,
+        assetClass: item.assetClass,
+        weight: Math.round(item.weight * 1000) / 10,
+        classShare: classTotals[item.assetClass] !== 0 ? item.weight / classTotals[item.assetClass] : 0,
+        ...estimates[i]
+      };
+    }),
+    securityWeights: held,
+    metrics: {
+      expectedReturn,
+      risk,
+      sharpeRatio: risk > 0 ? (expectedReturn - assumptions.riskFreeRate) / risk : 0,
+      assumptionSet: assumptionLabel(assumptions)
+    },
+    notes
+  };
+};
+
+export interface SelectSecuritiesInput {
+  allocation: Allocation;
+  universe: AssetUniverse;
+  assumptions: CapitalMarketAssumptions;
+  profile: RiskProfile;
+  policy?: SelectionPolicy;
+  // Per-fund bounds in percent of the whole portfolio
+  bounds?: Record<string, WeightBound>;
+}
+
+// Second optimization stage: splits each asset-class weight across its funds. Each class is a
+// mean-variance problem whose return tolerance is the variance the profile accepts per unit of
+// excess return, so aggressive profiles tilt toward higher-returning funds. Categories form groups
+// capped by the policy, and international stock funds are held at the home-bias target.
+export const selectSecurities = ({
+  allocation, universe, assumptions, profile, policy = DEFAULT_SELECTION_POLICY, bounds = {}
+}: SelectSecuritiesInput): SecuritySelection => {
+  const notes: string[] = [];
+  const excessReturn = Math.max(0.01, profile.targetReturn - assumptions.riskFreeRate);
+  const tolerance = (profile.maxRisk * profile.maxRisk) / excessReturn;
+
+  const weightsFor = (assetClass: FundClass): SecurityWeight[] => {
+    const funds = universe[assetClass];
+    const classWeight = allocation[assetClass] / 100;
+    if (funds.length === 0 || classWeight === 0) {
+      if (classWeight !== 0) notes.push(`No ${assetClass} funds in the universe; that weight is held as cash`);
+      return [];
+    }
+
+    const estimates = funds.map(fund => securityAssumption(assumptions, fund.symbol, assetClass));
+    const cov = buildCovariance(estimates.map(e => e.risk), funds.map((_a, i) => funds.map((_b, j) => (i === j ? 1 : INTRA_CLASS_CORRELATION))));
+    const categories = funds.map(fund => fund.category).filter((category, i, all) => all.indexOf(category) === i);
+    const hasInternational = categories.includes(INTERNATIONAL_CATEGORY);
+    if (assetClass === 'stocks' && !hasInternational && policy.internationalShare > 0) {
+      notes.push(`No ${INTERNATIONAL_CATEGORY} stock funds in the universe; the home-bias target is ignored`);
+    }
+    const boundsOf = (category: string) => {
+      const cap = Math.min(1, policy.categoryCaps[category] ?? 1);
+      if (assetClass === 'stocks' && category === INTERNATIONAL_CATEGORY && categories.length > 1) {
+        const share = Math.min(cap, policy.internationalShare);
+        return { lower: share, upper: share };
+      }
+      return { lower: 0, upper: cap };
+    };
+
+    // Fund bounds become shares of the class; rounding of the class weight can leave them slightly out of reach
+    const share = (value: number | undefined, fallback: number) =>
+      (value === undefined ? fallback : Math.min(1, Math.max(0, value / 100 / classWeight)));
+    let lower = funds.map(fund => share(bounds[fund.symbol]?.min, 0));
+    let upper = funds.map(fund => share(bounds[fund.symbol]?.max, 1));
+    const lowerTotal = lower.reduce((sum, x) => sum + x, 0);
+    const upperTotal = upper.reduce((sum, x) => sum + x, 0);
+    if (lowerTotal > 1) lower = lower.map(x => x / lowerTotal);
+    if (upperTotal < 1) upper = upper.map(x => Math.min(1, x / upperTotal));
+    if (lowerTotal > 1.005 || upperTotal < 0.995) notes.push(`The fund bounds cannot all be met at a ${(classWeight * 100).toFixed(1)}% ${assetClass} weight; they are scaled to fit`);
+
+    const sumOf = (values: number[], indices: number[]) => indices.reduce((sum, i) => sum + values[i], 0);
+    let groups = categories.map(category => {
+      const indices = funds.flatMap((fund, i) => (fund.category === category ? [i] : []));
+      const group = boundsOf(category);
+      // Fund bounds take precedence over the selection policy
+      return {
+        indices,
+        lower: Math.min(Math.max(group.lower, sumOf(lower, indices)), sumOf(upper, indices)),
+        upper: Math.max(Math.min(group.upper, sumOf(upper, indices)), sumOf(lower, indices))
+      };
+    });
+    if (groups.reduce((sum, group) => sum + group.lower, 0) > 1 + 1e-9 || groups.reduce((sum, group) => sum + group.upper, 0) < 1 - 1e-9) {
+      notes.push(`The selection rules leave part of the ${assetClass} allocation unplaceable; they are relaxed for ${assetClass}`);
+      groups = groups.map(group => ({ ...group, lower: sumOf(lower, group.indices), upper: sumOf(upper, group.indices) }));
+    }
+    const constraints: WeightConstraints = { lower, upper, groups };
+    const shares = solveMeanVariance(estimates.map(e => e.expectedReturn), cov, constraints, tolerance);
+    return funds.map((fund, i) => ({ id: fund.symbol, assetClass, weight: classWeight * shares[i] }));
+  };
+
+  const securityWeights = (['stocks', 'bonds', 'alternatives'] as const).flatMap(weightsFor);
+  const placed = securityWeights.reduce((sum, item) => sum + item.weight, 0);
+  securityWeights.push({ id: 'cash', assetClass: 'cash', weight: 1 - placed });
+  return describeSecurityWeights(securityWeights, universe, assumptions, notes);
+};
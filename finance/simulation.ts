@@ -0,0 +1,114 @@
+// Seeded 32-bit PRNG (mulberry32) so a simulation is reproducible for a given seed
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draws via Box-Muller, caching the second variate of each pair
+export const createNormal = (random: () => number): (() => number) => {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    const angle = 2 * Math.PI * random();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+};
+
+// Linearly interpolated percentile of an ascending array, p in [0, 1]
+export const percentile = (sorted: ArrayLike<number>, p: number): number => {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export const PERCENTILES = [0.05, 0.25, 0.5, 0.75, 0.95];
+
+export interface PercentileBand {
+  year: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloInput {
+  initialValue: number;
+  expectedReturn: number;
+  risk: number;
+  years: number;
+  goal: number;
+  netFlows?: number[];
+  paths?: number;
+  stepsPerYear?: number;
+  seed?: number;
+}
+
+export interface MonteCarloResult {
+  bands: PercentileBand[];
+  goalProbability: number;
+  expectedMaxDrawdown: number;
+  worstDrawdown: number;
+  drawdown95: number;
+}
+
+// Simulates geometric Brownian motion paths whose mean matches compounding at expectedReturn.
+// Optional netFlows[year] are added at each year end; a depleted path stays at zero.
+export const runMonteCarlo = ({
+  initialValue, expectedReturn, risk, years, goal, netFlows = [], paths = 2000, stepsPerYear = 12, seed = 1
+}: MonteCarloInput): MonteCarloResult => {
+  const normal = createNormal(createRandom(seed));
+  const drift = (Math.log(1 + expectedReturn) - (risk * risk) / 2) / stepsPerYear;
+  const volatility = risk / Math.sqrt(stepsPerYear);
+
+  const valuesByYear = Array.from({ length: years + 1 }, () => new Float64Array(paths));
+  const maxDrawdowns = new Float64Array(paths);
+
+  for (let path = 0; path < paths; path++) {
+    let value = initialValue;
+    let peak = value;
+    let maxDrawdown = 0;
+    valuesByYear[0][path] = value;
+    for (let year = 1; year <= years; year++) {
+      for (let step = 0; step < stepsPerYear; step++) {
+        value *= Math.exp(drift + volatility * normal());
+        peak = Math.max(peak, value);
+        if (peak > 0) maxDrawdown = Math.max(maxDrawdown, 1 - value / peak);
+      }
+      value = Math.max(0, value + (netFlows[year] || 0));
+      valuesByYear[year][path] = value;
+    }
+    maxDrawdowns[path] = maxDrawdown;
+  }
+
+  const bands = valuesByYear.map((values, year) => {
+    const sorted = Array.from(values).sort((a, b) => a - b);
+    const [p5, p25, p50, p75, p95] = PERCENTILES.map(p => Math.round(percentile(sorted, p)));
+    return { year, p5, p25, p50, p75, p95 };
+  });
+  const finalValues = valuesByYear[years];
+  const reached = finalValues.reduce((count, value) => count + (value >= goal ? 1 : 0), 0);
+  const sortedDrawdowns = Array.from(maxDrawdowns).sort((a, b) => a - b);
+
+  return {
+    bands,
+    goalProbability: reached / paths,
+    expectedMaxDrawdown: maxDrawdowns.reduce((sum, drawdown) => sum + drawdown, 0) / paths,
+    worstDrawdown: sortedDrawdowns[sortedDrawdowns.length - 1],
+    drawdown95: percentile(sortedDrawdowns, 0.95)
+  };
+};
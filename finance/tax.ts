@@ -0,0 +1,187 @@
+import type { Holding } from './holdings';
+import type { Trade } from './trades';
+import type { AssetClass, TaxEfficiency } from './types';
+
+export type AccountType = 'taxable' | 'taxDeferred' | 'taxFree';
+
+export const ACCOUNT_TYPES: { id: AccountType; label: string }[] = [
+  { id: 'taxable', label: 'Taxable' },
+  { id: 'taxDeferred', label: 'Tax-Deferred' },
+  { id: 'taxFree', label: 'Tax-Free' }
+];
+
+// Account types each kind of asset should be bought in, best first
+export const LOCATION_PREFERENCES: Record<TaxEfficiency, AccountType[]> = {
+  inefficient: ['taxDeferred', 'taxFree', 'taxable'],
+  efficient: ['taxable', 'taxFree', 'taxDeferred'],
+  exempt: ['taxable', 'taxDeferred', 'taxFree']
+};
+
+const LONG_TERM_DAYS = 365;
+
+export type HoldingTerm = 'long' | 'short' | 'unknown';
+
+export const holdingPeriod = (purchaseDate: string, asOf: Date): HoldingTerm => {
+  if (!purchaseDate) return 'unknown';
+  const days = (asOf.getTime() - new Date(`${purchaseDate}T00:00:00`).getTime()) / 86400000;
+  return days > LONG_TERM_DAYS ? 'long' : 'short';
+};
+
+interface Lot extends Holding {
+  accountType: AccountType;
+  term: HoldingTerm;
+  gainPerShare: number;
+}
+
+// Sell order: tax-advantaged lots (no tax), taxable losses (biggest first),
+// then long-term gains and finally short-term or undated gains (smallest gain per share first)
+const lotPriority = (lot: Lot): [number, number] => {
+  if (lot.accountType !== 'taxable') return [0, 0];
+  if (lot.gainPerShare < 0) return [1, lot.gainPerShare];
+  return [lot.term === 'long' ? 2 : 3, lot.gainPerShare];
+};
+
+export interface LotSale {
+  symbol: string;
+  account: string;
+  accountType: AccountType;
+  purchaseDate: string;
+  term: HoldingTerm;
+  shares: number;
+  proceeds: number;
+  gain: number;
+}
+
+export interface PlacedPurchase {
+  symbol: string;
+  account: string;
+  accountType: AccountType;
+  shares: number;
+  amount: number;
+}
+
+export interface TaxAwarePlanInput {
+  // A trade that names an account sells only that account's lots and buys only with its cash
+  trades: (Trade & { account?: string })[];
+  holdings: Holding[];
+  accountTypes: Record<string, AccountType>;
+  classOf: (symbol: string) => AssetClass | null;
+  taxEfficiencyOf: (symbol: string) => TaxEfficiency;
+  wholeShares: boolean;
+  rates: { shortTerm: number; longTerm: number };
+  asOf: Date;
+}
+
+export interface TaxAwarePlan {
+  sales: LotSale[];
+  purchases: PlacedPurchase[];
+  // account is set for trades that named one
+  unfilledSales: { symbol: string; account?: string; shares: number }[];
+  unplaced: { symbol: string; account?: string; amount: number }[];
+  gains: { shortTerm: number; longTerm: number };
+  estimatedTax: number;
+  locationWarnings: { symbol: string; account: string; accountType: AccountType }[];
+}
+
+// Picks lots for each sell, places each buy by asset location and estimates the capital gains
+export const planTaxAwareTrades = ({ trades, holdings, accountTypes, classOf, taxEfficiencyOf, wholeShares, rates, asOf }: TaxAwarePlanInput): TaxAwarePlan => {
+  const accountTypeOf = (account: string): AccountType => accountTypes[account] || 'taxable';
+  const cashByAccount: Record<string, number> = {};
+  holdings.forEach(holding => {
+    if (classOf(holding.ticker) === 'cash') {
+      cashByAccount[holding.account] = (cashByAccount[holding.account] || 0) + holding.shares * holding.price;
+    }
+  });
+
+  const sales: LotSale[] = [];
+  const unfilledSales: TaxAwarePlan['unfilledSales'] = [];
+  trades.filter(trade => trade.action === 'SELL').forEach(trade => {
+    const lots = holdings
+      .filter(holding => holding.ticker === trade.symbol && holding.shares > 0)
+      .filter(holding => trade.account === undefined || holding.account === trade.account)
+      .map((holding): Lot => ({
+        ...holding,
+        accountType: accountTypeOf(holding.account),
+        term: holdingPeriod(holding.purchaseDate, asOf),
+        gainPerShare: trade.price - holding.costBasis / holding.shares
+      }))
+      .sort((a, b) => {
+        const [rankA, keyA] = lotPriority(a);
+        const [rankB, keyB] = lotPriority(b);
+        return rankA - rankB || keyA - keyB;
+      });
+
+    let remaining = trade.shares;
+    lots.forEach(lot => {
+      if (remaining <= 1e-9) return;
+      const shares = Math.min(remaining, lot.shares);
+      remaining -= shares;
+      const proceeds = shares * trade.price;
+      sales.push({
+        symbol: trade.symbol,
+        account: lot.account,
+        accountType: lot.accountType,
+        purchaseDate: lot.purchaseDate,
+        term: lot.term,
+        shares,
+        proceeds,
+        gain: lot.accountType === 'taxable' ? shares * lot.gainPerShare : 0
+      });
+      cashByAccount[lot.account] = (cashByAccount[lot.account] || 0) + proceeds;
+    });
+    if (remaining > 1e-9) unfilledSales.push({ symbol: trade.symbol, account: trade.account, shares: remaining });
+  });
+
+  // Least tax-efficient buys go first so they claim the tax-deferred room
+  const efficiencyRank: Record<TaxEfficiency, number> = { inefficient: 0, efficient: 1, exempt: 2 };
+  const purchases: PlacedPurchase[] = [];
+  const unplaced: TaxAwarePlan['unplaced'] = [];
+  trades
+    .filter(trade => trade.action === 'BUY')
+    .sort((a, b) => efficiencyRank[taxEfficiencyOf(a.symbol)] - efficiencyRank[taxEfficiencyOf(b.symbol)])
+    .forEach(trade => {
+      let remaining = trade.amount;
+      LOCATION_PREFERENCES[taxEfficiencyOf(trade.symbol)].forEach(type => {
+        Object.keys(cashByAccount)
+          .filter(account => accountTypeOf(account) === type && (trade.account === undefined || account === trade.account))
+          .sort((a, b) => cashByAccount[b] - cashByAccount[a])
+          .forEach(account => {
+            const rawShares = Math.min(remaining, cashByAccount[account]) / trade.price;
+            const shares = wholeShares ? Math.floor(rawShares) : Math.round(rawShares * 1000) / 1000;
+            if (shares <= 0) return;
+            const amount = shares * trade.price;
+            purchases.push({ symbol: trade.symbol, account, accountType: type, shares, amount });
+            cashByAccount[account] -= amount;
+            remaining -= amount;
+          });
+      });
+      if (remaining >= trade.price || (!wholeShares && remaining > 0.01)) {
+        unplaced.push({ symbol: trade.symbol, account: trade.account, amount: remaining });
+      }
+    });
+
+  const gains = sales.reduce((totals, sale) => {
+    const key = sale.term === 'long' ? 'longTerm' : 'shortTerm';
+    return { ...totals, [key]: totals[key] + sale.gain };
+  }, { shortTerm: 0, longTerm: 0 });
+
+  // Existing positions sitting in an account type their asset should avoid
+  const locationWarnings = holdings
+    .filter(holding => classOf(holding.ticker) && classOf(holding.ticker) !== 'cash')
+    .filter(holding => LOCATION_PREFERENCES[taxEfficiencyOf(holding.ticker)][2] === accountTypeOf(holding.account))
+    .map(holding => ({ symbol: holding.ticker, account: holding.account, accountType: accountTypeOf(holding.account) }));
+
+  // A net loss in one term offsets a net gain in the other before rates apply
+  const taxableShort = gains.longTerm < 0 ? gains.shortTerm + gains.longTerm : gains.shortTerm;
+  const taxableLong = gains.shortTerm < 0 ? gains.longTerm + gains.shortTerm : gains.longTerm;
+
+  return {
+    sales,
+    purchases,
+    unfilledSales,
+    unplaced,
+    gains,
+    estimatedTax: Math.max(0, taxableShort) * rates.shortTerm + Math.max(0, taxableLong) * rates.longTerm,
+    locationWarnings
+  };
+};
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ASSET_UNIVERSE } from '../assumptions';
+import { BENCHMARKS, brinsonAttribution } from '../attribution';
+import { DEFAULT_ASSUMPTIONS, securityAssumption } from '../cma';
+
+const [sixtyForty] = BENCHMARKS;
+const attribute = (securityWeights: { id: string; assetClass: 'stocks' | 'bonds' | 'alternatives' | 'cash'; weight: number }[]) =>
+  brinsonAttribution({ securityWeights, benchmark: sixtyForty.allocation, assumptions: DEFAULT_ASSUMPTIONS, universe: ASSET_UNIVERSE });
+
+test('the allocation, selection and interaction effects add up to the active return', () => {
+  const result = attribute([
+    { id: 'VTI', assetClass: 'stocks', weight: 0.5 },
+    { id: 'QQQ', assetClass: 'stocks', weight: 0.2 },
+    { id: 'BND', assetClass: 'bonds', weight: 0.2 },
+    { id: 'VNQ', assetClass: 'alternatives', weight: 0.05 },
+    { id: 'cash', assetClass: 'cash', weight: 0.05 }
+  ]);
+  assert.ok(Math.abs(result.allocation + result.selection + result.interaction - result.activeReturn) < 1e-12);
+  assert.ok(Math.abs(result.benchmarkReturn - (0.6 * DEFAULT_ASSUMPTIONS.returns.stocks + 0.4 * DEFAULT_ASSUMPTIONS.returns.bonds)) < 1e-12);
+  assert.equal(result.byClass.find(item => item.assetClass === 'cash')?.selection, 0);
+});
+
+test('holding the benchmark weights leaves only the selection effect, net of expense ratios', () => {
+  const result = attribute([
+    { id: 'VTI', assetClass: 'stocks', weight: 0.6 },
+    { id: 'BND', assetClass: 'bonds', weight: 0.4 }
+  ]);
+  assert.ok(Math.abs(result.allocation) < 1e-12);
+  assert.ok(Math.abs(result.interaction) < 1e-12);
+  const stocks = result.byClass[0];
+  const expected = securityAssumption(DEFAULT_ASSUMPTIONS, 'VTI', 'stocks').expectedReturn - 0.0003 - DEFAULT_ASSUMPTIONS.returns.stocks;
+  assert.ok(Math.abs(stocks.selection - 0.6 * expected) < 1e-12);
+});
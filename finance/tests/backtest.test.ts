@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseReturnsCsv, runBacktest, toTickerWeights } from '../backtest';
+
+test('parseReturnsCsv reads decimals and percentages and reports bad rows and gaps', () => {
+  const { rows, errors } = parseReturnsCsv([
+    'month,VTI,BND',
+    '2020-01,0.01,0.5%',
+    '2020-02,abc,0.002',
+    '2020-04,-0.02,0.001'
+  ].join('\n'));
+  assert.deepEqual(rows, [{ month: '2020-01', VTI: 0.01, BND: 0.005 }, { month: '2020-04', VTI: -0.02, BND: 0.001 }]);
+  assert.equal(errors.length, 2);
+  assert.match(errors[0], /Row 3/);
+  assert.match(errors[1], /missing/);
+});
+
+test('toTickerWeights spreads classes over available tickers and sends the rest to cash', () => {
+  const { weights, unmapped } = toTickerWeights(
+    { stocks: 60, bonds: 30, alternatives: 10, cash: 0 },
+    { stocks: ['VTI', 'VXUS'], bonds: ['BND'], alternatives: ['VNQ'] },
+    ['VTI', 'VXUS', 'BND']
+  );
+  assert.deepEqual(weights, { cash: 0.1, VTI: 0.3, VXUS: 0.3, BND: 0.3 });
+  assert.deepEqual(unmapped, ['alternatives']);
+});
+
+test('runBacktest compounds returns and measures drawdowns', () => {
+  const rows = [
+    { month: '2021-11', A: 0.1 },
+    { month: '2021-12', A: -0.2 },
+    { month: '2022-01', A: 0.1 }
+  ];
+  const result = runBacktest({ rows, weights: { A: 1 }, rebalanceFreq: 'monthly', initialValue: 1000, cashReturn: 0, riskFreeRate: 0 });
+  assert.deepEqual(result.series.map(point => point.value), [1100, 880, 968]);
+  assert.ok(Math.abs(result.maxDrawdown - 0.2) < 1e-12);
+  assert.deepEqual(result.calendarYears.map(year => [year.year, year.partial]), [['2021', true], ['2022', true]]);
+});
+
+test('runBacktest drifts between rebalances according to the frequency', () => {
+  const rows = [
+    { month: '2020-11', A: 0.1, B: -0.1 },
+    { month: '2020-12', A: 0.1, B: -0.1 },
+    { month: '2021-01', A: -0.1, B: 0.1 },
+    { month: '2021-02', A: -0.1, B: 0.1 }
+  ];
+  const endingValue = (rebalanceFreq: 'monthly' | 'annually' | 'never') => {
+    const { series } = runBacktest({ rows, weights: { A: 0.5, B: 0.5 }, rebalanceFreq, initialValue: 1000, cashReturn: 0, riskFreeRate: 0 });
+    return series[series.length - 1].value;
+  };
+  assert.equal(endingValue('monthly'), 1000);
+  // Rebalanced at the December year-end after drifting to 605/405
+  assert.equal(endingValue('annually'), 1020);
+  assert.equal(endingValue('never'), 980);
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCashFlowSchedule, netCashFlows, projectCashFlows, requiredGrowthRate } from '../cashflows';
+
+const schedule = (overrides = {}) => buildCashFlowSchedule({
+  years: 10,
+  contribution: 0,
+  withdrawal: { amount: 0, startYear: 10 },
+  goals: [],
+  inflation: 0,
+  ...overrides
+});
+
+test('buildCashFlowSchedule inflates amounts entered in today\'s dollars', () => {
+  const flows = schedule({ contribution: 1000, inflation: 0.02, goals: [{ name: 'House', year: 2, amount: 5000 }] });
+  assert.equal(flows[0].contribution, 0);
+  assert.ok(Math.abs(flows[2].contribution - 1040.4) < 1e-9);
+  assert.ok(Math.abs(flows[2].goals[0].amount - 5202) < 1e-9);
+  assert.ok(Math.abs(netCashFlows(flows)[2] - (1040.4 - 5202)) < 1e-9);
+});
+
+test('projectCashFlows pays withdrawals and goals and records shortfalls', () => {
+  const plan = projectCashFlows({
+    initialValue: 1000,
+    growth: 0,
+    schedule: schedule({ years: 3, withdrawal: { amount: 400, startYear: 1 } })
+  });
+  assert.deepEqual(plan.values, [1000, 600, 200, 0]);
+  assert.equal(plan.withdrawalShortfall, 200);
+  assert.equal(plan.depletedYear, 3);
+});
+
+test('requiredGrowthRate finds the lowest rate that funds every goal', () => {
+  assert.equal(requiredGrowthRate({ initialValue: 1000, schedule: schedule() }).status, 'none');
+
+  const result = requiredGrowthRate({ initialValue: 100000, schedule: schedule({ goals: [{ name: 'Goal', year: 10, amount: 200000 }] }) });
+  assert.equal(result.status, 'ok');
+  assert.ok(result.rate !== null && Math.abs(result.rate - (Math.pow(2, 0.1) - 1)) < 1e-5);
+
+  const unreachable = requiredGrowthRate({ initialValue: 1, schedule: schedule({ goals: [{ name: 'Goal', year: 1, amount: 1e9 }] }) });
+  assert.equal(unreachable.status, 'unreachable');
+});
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ASSET_UNIVERSE } from '../assumptions';
+import {
+  DEFAULT_ASSUMPTIONS, assumptionLabel, assumptionsToJson, deriveAssumptions, parseAssumptions, parsePricesCsv, recommendationsFor
+} from '../cma';
+import { calculateMetrics } from '../metrics';
+import { validateCorrelationMatrix } from '../matrix';
+import type { ReturnRow } from '../backtest';
+
+test('the bundled house view loads and round-trips through JSON', () => {
+  assert.equal(assumptionLabel(DEFAULT_ASSUMPTIONS), 'House view v1.0');
+  const { assumptions, errors } = parseAssumptions(JSON.parse(assumptionsToJson(DEFAULT_ASSUMPTIONS)));
+  assert.deepEqual(errors, []);
+  assert.deepEqual(assumptions, DEFAULT_ASSUMPTIONS);
+});
+
+test('parseAssumptions rejects unknown schema versions and incomplete sets', () => {
+  assert.match(parseAssumptions({ schemaVersion: 2 }).errors[0], /schemaVersion/);
+  const file = JSON.parse(assumptionsToJson(DEFAULT_ASSUMPTIONS));
+  delete file.assetClasses.bonds;
+  file.correlations[0][1] = 2;
+  const { assumptions, errors } = parseAssumptions(file);
+  assert.equal(assumptions, null);
+  assert.ok(errors.some(error => error.includes('assetClasses.bonds')));
+  assert.ok(errors.some(error => error.startsWith('correlations:')));
+});
+
+test('metrics and recommendations carry the assumption set they came from', () => {
+  const metrics = calculateMetrics({ stocks: 60, bonds: 40, alternatives: 0, cash: 0 }, DEFAULT_ASSUMPTIONS);
+  assert.equal(metrics.assumptionSet, 'House view v1.0');
+  const custom = { ...DEFAULT_ASSUMPTIONS, securities: {} };
+  const recommendations = recommendationsFor(ASSET_UNIVERSE, custom);
+  assert.equal(recommendations.bonds[0].expectedReturn, custom.returns.bonds);
+  assert.equal(recommendations.bonds[0].symbol, 'BND');
+});
+
+test('parsePricesCsv keeps month-end closes and reports gaps', () => {
+  const { rows, errors } = parsePricesCsv([
+    'date,VTI',
+    '2020-01-15,90',
+    '2020-01-31,100',
+    '2020-02-28,110',
+    '2020-04-30,121'
+  ].join('\n'));
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0].month, '2020-02');
+  assert.ok(Math.abs(Number(rows[0].VTI) - 0.1) < 1e-12);
+  assert.match(errors[0], /missing/);
+});
+
+const history = (months: number): ReturnRow[] => Array.from({ length: months }, (_, t) => ({
+  month: `${2000 + Math.floor(t / 12)}-${String(t % 12 + 1).padStart(2, '0')}`,
+  VTI: t % 2 === 0 ? 0.04 : -0.02,
+  BND: t % 3 === 0 ? 0.01 : 0.002
+}));
+
+test('deriveAssumptions annualizes sample estimates and keeps base figures for missing classes', () => {
+  const tickersByClass = { stocks: ['VTI'], bonds: ['BND'], alternatives: ['VNQ'] };
+  assert.match(deriveAssumptions({ rows: history(12), tickersByClass, base: DEFAULT_ASSUMPTIONS }).errors[0], /24 months/);
+
+  const { assumptions, warnings } = deriveAssumptions({ rows: history(36), tickersByClass, base: DEFAULT_ASSUMPTIONS });
+  assert.ok(assumptions);
+  assert.ok(Math.abs(assumptions.returns.stocks - 0.12) < 1e-6);
+  assert.equal(assumptions.returns.alternatives, DEFAULT_ASSUMPTIONS.returns.alternatives);
+  assert.equal(assumptions.securities.VTI.expectedReturn, assumptions.returns.stocks);
+  assert.deepEqual(validateCorrelationMatrix(assumptions.correlations), []);
+  assert.equal(warnings.length, 2);
+});
+
+test('full shrinkage pulls expected returns to their common mean', () => {
+  const { assumptions } = deriveAssumptions({
+    rows: history(36),
+    tickersByClass: { stocks: ['VTI'], bonds: ['BND'] },
+    base: DEFAULT_ASSUMPTIONS,
+    shrinkage: 1
+  });
+  assert.ok(assumptions);
+  assert.ok(Math.abs(assumptions.returns.stocks - assumptions.returns.bonds) < 1e-6);
+  assert.match(assumptions.version, /100% shrinkage/);
+});
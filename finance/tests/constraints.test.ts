@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ASSET_UNIVERSE, RISK_PROFILES } from '../assumptions';
+import { DEFAULT_ASSUMPTIONS } from '../cma';
+import { NO_CONSTRAINTS, effectiveClassBounds, excludeSecurities, explainConstraintConflicts, oneWayTurnover } from '../constraints';
+import { optimizeAllocation, toClassBounds } from '../optimizer';
+import { DEFAULT_WEIGHT_BOUNDS } from '../scenario';
+
+const classBounds = toClassBounds(DEFAULT_WEIGHT_BOUNDS, true);
+const optimize = (overrides = {}) => optimizeAllocation({
+  profile: RISK_PROFILES.medium,
+  assumptions: DEFAULT_ASSUMPTIONS,
+  mode: 'maxSharpe',
+  targetReturn: 0.08,
+  weightBounds: DEFAULT_WEIGHT_BOUNDS,
+  ...overrides
+});
+
+test('excluding a category removes its funds and closes classes left empty', () => {
+  const constraints = { ...NO_CONSTRAINTS, excludedCategories: ['Commodities', 'REITs'] };
+  assert.deepEqual(excludeSecurities(ASSET_UNIVERSE, constraints).alternatives, []);
+  assert.equal(effectiveClassBounds(classBounds, ASSET_UNIVERSE, constraints)[2].upper, 0);
+  assert.equal(optimize({ constraints }).allocation.alternatives, 0);
+});
+
+test('the cash floor and fund minimums tighten the class bounds', () => {
+  const constraints = { ...NO_CONSTRAINTS, cashFloor: 10, securityBounds: { VTI: { min: 25, max: 40 }, QQQ: { min: 10, max: 10 } } };
+  const [stocks, , , cash] = effectiveClassBounds(classBounds, ASSET_UNIVERSE, constraints);
+  assert.equal(cash.lower, 0.1);
+  assert.ok(Math.abs(stocks.lower - 0.35) < 1e-12);
+  const result = optimize({ constraints, universe: ASSET_UNIVERSE });
+  const weightOf = (id: string) => result.securityWeights.find(item => item.id === id)?.weight ?? 0;
+  assert.ok(result.allocation.cash >= 10 - 0.05);
+  assert.ok(weightOf('VTI') >= 0.25 - 1e-6 && weightOf('VTI') <= 0.4 + 1e-6);
+  assert.ok(Math.abs(weightOf('QQQ') - 0.1) < 1e-6);
+});
+
+test('conflicting constraints are explained', () => {
+  assert.deepEqual(explainConstraintConflicts(classBounds, ASSET_UNIVERSE, NO_CONSTRAINTS), []);
+  const conflicts = explainConstraintConflicts(classBounds, ASSET_UNIVERSE, {
+    ...NO_CONSTRAINTS,
+    excludedTickers: ['BND', 'VTEB', 'SCHZ', 'VNQ'],
+    securityBounds: { VNQ: { min: 5, max: 10 } }
+  });
+  assert.ok(conflicts.some(conflict => conflict.includes('VNQ is excluded')));
+  assert.ok(conflicts.some(conflict => conflict.includes('every bonds fund is excluded')));
+
+  const overCommitted = explainConstraintConflicts(classBounds, ASSET_UNIVERSE, { ...NO_CONSTRAINTS, cashFloor: 75 });
+  assert.match(overCommitted[0], /Minimums add up to 105%/);
+  const result = optimize({ constraints: { ...NO_CONSTRAINTS, cashFloor: 75 } });
+  assert.equal(result.conflicts.length, 1);
+  assert.deepEqual(result.allocation, { stocks: 60, bonds: 30, alternatives: 8, cash: 2 });
+});
+
+test('the turnover limit moves part of the way from the current allocation', () => {
+  const current = { stocks: 30, bonds: 60, alternatives: 0, cash: 10 };
+  const free = optimize({ current });
+  const limited = optimize({ current, constraints: { ...NO_CONSTRAINTS, maxTurnover: 5 } });
+  const fractions = (allocation: typeof current) => [allocation.stocks, allocation.bonds, allocation.alternatives, allocation.cash].map(x => x / 100);
+  assert.ok(oneWayTurnover(fractions(current), fractions(free.allocation)) > 0.05);
+  assert.ok(oneWayTurnover(fractions(current), fractions(limited.allocation)) <= 0.05 + 1e-3);
+  assert.match(limited.note ?? '', /turnover/);
+
+  const outside = optimize({ current: { stocks: 0, bonds: 0, alternatives: 0, cash: 100 }, constraints: { ...NO_CONSTRAINTS, maxTurnover: 5 } });
+  assert.match(outside.conflicts[0], /takes 30.0% turnover/);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ASSET_UNIVERSE } from '../assumptions';
+import { buildCashFlowSchedule } from '../cashflows';
+import { portfolioExpenseRatio, projectNetOfFees } from '../fees';
+
+const schedule = buildCashFlowSchedule({ years: 2, contribution: 0, withdrawal: { amount: 0, startYear: 2 }, goals: [], inflation: 0 });
+
+test('portfolioExpenseRatio weights each fund and charges nothing on cash', () => {
+  const ratio = portfolioExpenseRatio([
+    { id: 'VTI', assetClass: 'stocks', weight: 0.5 },
+    { id: 'DBC', assetClass: 'alternatives', weight: 0.25 },
+    { id: 'cash', assetClass: 'cash', weight: 0.25 }
+  ], ASSET_UNIVERSE);
+  assert.ok(Math.abs(ratio - (0.5 * 0.0003 + 0.25 * 0.0087)) < 1e-12);
+});
+
+test('projectNetOfFees charges the fee on the grown balance and counts the lost growth', () => {
+  const projection = projectNetOfFees({ initialValue: 100, growth: 0.1, feeRate: 0.01, schedule });
+  assert.ok(Math.abs(projection.net.values[1] - 108.9) < 1e-9);
+  assert.ok(Math.abs(projection.cumulativeFees[1] - 1.1) < 1e-9);
+  assert.ok(Math.abs(projection.cumulativeFees[2] - (1.1 + 1.1979)) < 1e-9);
+  assert.ok(Math.abs(projection.gross.values[2] - projection.net.values[2] - projection.cost) < 1e-9);
+  assert.ok(projection.cost > projection.cumulativeFees[2]);
+
+  const free = projectNetOfFees({ initialValue: 100, growth: 0.1, feeRate: 0, schedule });
+  assert.equal(free.cost, 0);
+  assert.deepEqual(free.net.values, free.gross.values);
+});
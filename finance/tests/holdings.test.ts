@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyTicker, parseHoldingsCsv, rollUpHoldings } from '../holdings';
+import { parseAmount, splitCsvLine, toIsoDate } from '../csv';
+
+const tickersByClass = { stocks: ['VTI'], bonds: ['BND'], alternatives: ['VNQ'] };
+
+test('CSV cell helpers handle quotes, currency and dates', () => {
+  assert.deepEqual(splitCsvLine('"Smith, J",VTI,"say ""hi"""'), ['Smith, J', 'VTI', 'say "hi"']);
+  assert.equal(parseAmount('$1,234.50'), 1234.5);
+  assert.equal(parseAmount('(12.00)'), -12);
+  assert.ok(Number.isNaN(parseAmount('--')));
+  assert.equal(toIsoDate('3/7/2021'), '2021-03-07');
+  assert.equal(toIsoDate('yesterday'), '');
+});
+
+test('classifyTicker maps broker symbols to asset classes', () => {
+  assert.equal(classifyTicker('SPAXX**', tickersByClass), 'cash');
+  assert.equal(classifyTicker('vti', tickersByClass), 'stocks');
+  assert.equal(classifyTicker('XYZ', tickersByClass), null);
+});
+
+test('parseHoldingsCsv reads brokerage exports and reports invalid rows', () => {
+  const { holdings, errors } = parseHoldingsCsv([
+    'Account Name,Symbol,Quantity,Last Price,Cost Basis Total,Date Acquired',
+    'IRA,VTI,10,$200.00,"$1,500.00",01/15/2020',
+    'IRA,SPAXX**,500,,,',
+    'IRA,XYZ,1,10,10,',
+    'Total,,,,,'
+  ].join('\n'), tickersByClass);
+  assert.equal(holdings.length, 2);
+  assert.deepEqual(
+    { ...holdings[0], id: 0 },
+    { id: 0, ticker: 'VTI', shares: 10, price: 200, costBasis: 1500, account: 'IRA', purchaseDate: '2020-01-15' }
+  );
+  assert.equal(holdings[1].price, 1);
+  assert.deepEqual(errors, ['Row 4 (XYZ): ticker is not in the asset universe']);
+});
+
+test('parseHoldingsCsv requires ticker and quantity columns', () => {
+  assert.deepEqual(parseHoldingsCsv('Name,Value\nx,1', tickersByClass).errors, ['Missing required column(s): ticker, shares']);
+});
+
+test('rollUpHoldings sums market value per asset class', () => {
+  const { allocation, totalValue, unclassified } = rollUpHoldings([
+    { id: 1, ticker: 'VTI', shares: 3, price: 100, costBasis: 0, account: '', purchaseDate: '' },
+    { id: 2, ticker: 'BND', shares: 1, price: 100, costBasis: 0, account: '', purchaseDate: '' },
+    { id: 3, ticker: 'ABC', shares: 1, price: 100, costBasis: 0, account: '', purchaseDate: '' }
+  ], tickersByClass);
+  assert.deepEqual(allocation, { stocks: 75, bonds: 25, alternatives: 0, cash: 0 });
+  assert.equal(totalValue, 400);
+  assert.deepEqual(unclassified, ['ABC']);
+});
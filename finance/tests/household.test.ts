@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ASSET_UNIVERSE, tickersOf } from '../assumptions';
+import { createHolding } from '../holdings';
+import { accountTypesOf, householdAccounts, placeHouseholdAllocation, planAccountTrades, rollUpHousehold } from '../household';
+
+const tickersByClass = tickersOf(ASSET_UNIVERSE);
+const holdings = [
+  createHolding({ ticker: 'VTI', shares: 100, price: 300, account: 'Brokerage' }),
+  createHolding({ ticker: 'CASH', shares: 10000, price: 1, account: 'Brokerage' }),
+  createHolding({ ticker: 'BND', shares: 200, price: 50, account: '401k' }),
+  createHolding({ ticker: 'VTI', shares: 100, price: 300, account: '401k' })
+];
+const securityWeights = [
+  { id: 'VTI', assetClass: 'stocks' as const, weight: 0.5 },
+  { id: 'BND', assetClass: 'bonds' as const, weight: 0.3 },
+  { id: 'VTEB', assetClass: 'bonds' as const, weight: 0.1 },
+  { id: 'cash', assetClass: 'cash' as const, weight: 0.1 }
+];
+
+test('householdAccounts and rollUpHousehold aggregate each account and the household', () => {
+  const accounts = householdAccounts(holdings, { '401k': { type: 'taxDeferred', owner: 'Alex' } });
+  assert.deepEqual(accounts.map(account => account.name), ['Brokerage', '401k']);
+  assert.deepEqual(accountTypesOf(accounts), { Brokerage: 'taxable', '401k': 'taxDeferred' });
+
+  const household = rollUpHousehold(holdings, accounts, tickersByClass);
+  assert.equal(household.totalValue, 80000);
+  assert.deepEqual(household.accounts.map(item => item.totalValue), [40000, 40000]);
+  assert.deepEqual(household.accounts[0].allocation, { stocks: 75, bonds: 0, alternatives: 0, cash: 25 });
+  assert.equal(household.allocation.stocks, 75);
+});
+
+test('placeHouseholdAllocation puts inefficient funds in tax-deferred room and keeps account values', () => {
+  const accounts = householdAccounts(holdings, { '401k': { type: 'taxDeferred' } });
+  const placement = placeHouseholdAllocation({ securityWeights, accounts, holdings, universe: ASSET_UNIVERSE, tickersByClass });
+  const [brokerage, plan] = placement.accounts;
+  assert.equal(plan.target.BND, 24000);
+  assert.equal(brokerage.target.VTEB, 8000);
+  assert.equal(brokerage.target.VTI, 32000);
+  assert.equal(plan.target.cash, 8000);
+  placement.accounts.forEach(item => {
+    const placed = Object.keys(item.target).reduce((sum, symbol) => sum + item.target[symbol], 0);
+    assert.ok(Math.abs(placed - item.totalValue) < 1e-6);
+  });
+  assert.deepEqual(placement.notes, []);
+
+  const trades = planAccountTrades(placement, {
+    prices: { VTI: 300, BND: 50, VTEB: 50 },
+    classOf: () => 'bonds',
+    minTradeSize: 0,
+    wholeShares: true,
+    cashBuffer: 0
+  });
+  assert.ok(trades[1].trades.some(trade => trade.symbol === 'BND' && trade.action === 'BUY' && trade.shares === 280));
+});
+
+test('account restrictions send funds elsewhere or leave them unplaced', () => {
+  const accounts = householdAccounts(holdings, {
+    '401k': { type: 'taxDeferred', restrictions: { excludedTickers: [], excludedCategories: ['Government'] } },
+    Brokerage: { restrictions: { excludedTickers: ['BND'], excludedCategories: [] } }
+  });
+  const placement = placeHouseholdAllocation({ securityWeights, accounts, holdings, universe: ASSET_UNIVERSE, tickersByClass });
+  assert.ok(placement.accounts.every(item => !item.target.BND));
+  assert.equal(placement.unplaced[0].symbol, 'BND');
+  assert.ok(Math.abs(placement.unplaced[0].amount - 24000) < 1e-6);
+  assert.match(placement.notes[0], /BND/);
+});
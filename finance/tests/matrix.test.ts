@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_ASSUMPTIONS } from '../cma';
+import { bisect, buildCovariance, cholesky, symmetricEigenvalues, validateCorrelationMatrix } from '../matrix';
+
+const DEFAULT_CORRELATIONS = DEFAULT_ASSUMPTIONS.correlations;
+
+test('buildCovariance scales correlations by both volatilities', () => {
+  const cov = buildCovariance([0.2, 0.1], [[1, 0.5], [0.5, 1]]);
+  assert.deepEqual(cov.map(row => row.map(x => Number(x.toFixed(6)))), [[0.04, 0.01], [0.01, 0.01]]);
+});
+
+test('symmetricEigenvalues finds the eigenvalues of a symmetric matrix', () => {
+  const eigenvalues = symmetricEigenvalues([[2, 1], [1, 2]]).sort((a, b) => a - b);
+  assert.ok(Math.abs(eigenvalues[0] - 1) < 1e-9);
+  assert.ok(Math.abs(eigenvalues[1] - 3) < 1e-9);
+});
+
+test('validateCorrelationMatrix accepts the defaults', () => {
+  assert.deepEqual(validateCorrelationMatrix(DEFAULT_CORRELATIONS), []);
+});
+
+test('validateCorrelationMatrix reports asymmetric, out-of-range and non-PSD matrices', () => {
+  const asymmetric = DEFAULT_CORRELATIONS.map(row => [...row]);
+  asymmetric[0][1] = 0.3;
+  assert.match(validateCorrelationMatrix(asymmetric)[0], /not symmetric/);
+
+  const outOfRange = DEFAULT_CORRELATIONS.map(row => [...row]);
+  outOfRange[0][1] = outOfRange[1][0] = 1.5;
+  assert.match(validateCorrelationMatrix(outOfRange)[0], /between -1 and 1/);
+
+  const impossible = [[1, 0.9, -0.9], [0.9, 1, 0.9], [-0.9, 0.9, 1]];
+  assert.match(validateCorrelationMatrix(impossible, ['a', 'b', 'c'])[0], /positive semi-definite/);
+});
+
+test('cholesky reproduces the original matrix', () => {
+  const matrix = buildCovariance([0.16, 0.04, 0.12, 0.01], DEFAULT_CORRELATIONS);
+  const lower = cholesky(matrix);
+  matrix.forEach((row, i) => row.forEach((value, j) => {
+    const product = lower[i].reduce((sum, x, k) => sum + x * lower[j][k], 0);
+    assert.ok(Math.abs(product - value) < 1e-12);
+  }));
+});
+
+test('bisect finds the root of a decreasing function', () => {
+  assert.ok(Math.abs(bisect(x => 2 - x * x, 0, 2) - Math.SQRT2) < 1e-12);
+});
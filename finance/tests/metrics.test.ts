@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_ASSUMPTIONS } from '../cma';
+import { calculateMetrics, growthRate } from '../metrics';
+
+test('a single-asset portfolio has that asset\'s return and risk', () => {
+  const metrics = calculateMetrics({ stocks: 100, bonds: 0, alternatives: 0, cash: 0 }, DEFAULT_ASSUMPTIONS);
+  assert.ok(Math.abs(metrics.expectedReturn - 0.10) < 1e-12);
+  assert.ok(Math.abs(metrics.risk - 0.16) < 1e-12);
+  assert.ok(Math.abs(metrics.sharpeRatio - 0.5) < 1e-12);
+});
+
+test('diversification lowers risk below the weighted average volatility', () => {
+  const metrics = calculateMetrics({ stocks: 60, bonds: 40, alternatives: 0, cash: 0 }, DEFAULT_ASSUMPTIONS);
+  assert.ok(Math.abs(metrics.expectedReturn - 0.076) < 1e-12);
+  assert.ok(metrics.risk < 0.6 * 0.16 + 0.4 * 0.04);
+});
+
+test('growthRate subtracts the volatility drag', () => {
+  assert.ok(Math.abs(growthRate({ expectedReturn: 0.08, risk: 0.2 }) - 0.06) < 1e-12);
+});
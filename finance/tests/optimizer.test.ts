@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ASSET_CLASSES, ASSET_UNIVERSE, RISK_PROFILES } from '../assumptions';
+import { DEFAULT_ASSUMPTIONS } from '../cma';
+import { buildCovariance } from '../matrix';
+import { calculateMetrics } from '../metrics';
+import {
+  allocationFrontier, boundsAreFeasible, optimizeMeanVariance, optimizeAllocation, projectWeights, toClassBounds, toPercentages
+} from '../optimizer';
+import { DEFAULT_WEIGHT_BOUNDS } from '../scenario';
+import type { WeightConstraints } from '../types';
+
+const sum = (values: number[]) => values.reduce((total, x) => total + x, 0);
+const mu = ASSET_CLASSES.map(asset => DEFAULT_ASSUMPTIONS.returns[asset]);
+const cov = buildCovariance(ASSET_CLASSES.map(asset => DEFAULT_ASSUMPTIONS.risks[asset]), DEFAULT_ASSUMPTIONS.correlations);
+const longOnly: WeightConstraints = {
+  lower: [0, 0, 0, 0],
+  upper: [1, 1, 1, 1],
+  groups: ASSET_CLASSES.map((_, i) => ({ indices: [i], lower: 0, upper: 1 }))
+};
+
+test('projectWeights lands on the budget and respects bounds', () => {
+  const constraints: WeightConstraints = { ...longOnly, groups: [{ indices: [0, 1], lower: 0, upper: 0.5 }, { indices: [2, 3], lower: 0, upper: 1 }] };
+  const w = projectWeights([0.9, 0.6, -0.2, 0.1], constraints);
+  assert.ok(Math.abs(sum(w) - 1) < 1e-9);
+  assert.ok(w.every(x => x >= -1e-12 && x <= 1 + 1e-12));
+  assert.ok(w[0] + w[1] <= 0.5 + 1e-9);
+});
+
+test('minimum variance is no riskier than any single asset', () => {
+  const result = optimizeMeanVariance({ mu, cov, constraints: longOnly, mode: 'minVariance', riskFreeRate: 0.02 });
+  assert.ok(result.risk <= Math.min(...ASSET_CLASSES.map(asset => DEFAULT_ASSUMPTIONS.risks[asset])) + 1e-9);
+  assert.ok(Math.abs(sum(result.weights) - 1) < 1e-9);
+});
+
+test('target return mode hits an achievable target', () => {
+  const result = optimizeMeanVariance({ mu, cov, constraints: longOnly, mode: 'targetReturn', targetReturn: 0.06, riskFreeRate: 0.02 });
+  assert.ok(Math.abs(result.expectedReturn - 0.06) < 1e-4);
+  assert.equal(result.note, null);
+});
+
+test('target return mode explains unreachable targets and caps risk at the budget', () => {
+  const unreachable = optimizeMeanVariance({ mu, cov, constraints: longOnly, mode: 'targetReturn', targetReturn: 0.2, riskFreeRate: 0.02 });
+  assert.match(unreachable.note ?? '', /exceeds/);
+
+  const capped = optimizeMeanVariance({ mu, cov, constraints: longOnly, mode: 'targetReturn', targetReturn: 0.09, maxRisk: 0.08, riskFreeRate: 0.02 });
+  assert.ok(capped.risk <= 0.08 + 1e-4);
+  assert.match(capped.note ?? '', /risk budget/);
+  const both = optimizeMeanVariance({ mu, cov, constraints: longOnly, mode: 'targetReturn', targetReturn: 0.2, maxRisk: 0.08, riskFreeRate: 0.02 });
+  assert.match(both.note ?? '', /exceeds.*; Capped at the 8% risk budget/);
+});
+
+test('max Sharpe beats the minimum-variance and maximum-return corners', () => {
+  const sharpe = optimizeMeanVariance({ mu, cov, constraints: longOnly, mode: 'maxSharpe', riskFreeRate: 0.02 });
+  const minVariance = optimizeMeanVariance({ mu, cov, constraints: longOnly, mode: 'minVariance', riskFreeRate: 0.02 });
+  const maxReturn = optimizeMeanVariance({ mu, cov, constraints: longOnly, mode: 'targetReturn', targetReturn: 1, riskFreeRate: 0.02 });
+  assert.ok(sharpe.sharpeRatio >= minVariance.sharpeRatio - 1e-9);
+  assert.ok(sharpe.sharpeRatio >= maxReturn.sharpeRatio - 1e-9);
+});
+
+test('toPercentages rounds to one decimal and sums to exactly 100', () => {
+  const percentages = toPercentages([1 / 3, 1 / 3, 1 / 3, 0]);
+  assert.equal(Math.round(sum(percentages) * 10), 1000);
+  assert.ok(percentages.every(p => Math.round(p * 10) === p * 10));
+});
+
+test('toClassBounds and boundsAreFeasible reject bounds that cannot sum to 100%', () => {
+  assert.ok(boundsAreFeasible(toClassBounds(DEFAULT_WEIGHT_BOUNDS, true)));
+  const tooHigh = { ...DEFAULT_WEIGHT_BOUNDS, stocks: { min: 80, max: 90 }, bonds: { min: 30, max: 70 } };
+  assert.equal(boundsAreFeasible(toClassBounds(tooHigh, true)), false);
+});
+
+test('optimizeAllocation respects class bounds and the risk budget', () => {
+  const result = optimizeAllocation({
+    profile: RISK_PROFILES.medium,
+    assumptions: DEFAULT_ASSUMPTIONS,
+    mode: 'targetReturn',
+    targetReturn: 0.08,
+    weightBounds: DEFAULT_WEIGHT_BOUNDS
+  });
+  assert.equal(Math.round(sum(ASSET_CLASSES.map(asset => result.allocation[asset])) * 10), 1000);
+  ASSET_CLASSES.forEach(asset => {
+    assert.ok(result.allocation[asset] >= DEFAULT_WEIGHT_BOUNDS[asset].min - 0.1);
+    assert.ok(result.allocation[asset] <= DEFAULT_WEIGHT_BOUNDS[asset].max + 0.1);
+  });
+  assert.ok(calculateMetrics(result.allocation, DEFAULT_ASSUMPTIONS).risk <= RISK_PROFILES.medium.maxRisk + 1e-3);
+  assert.ok(result.frontier.length > 1);
+});
+
+test('optimizeAllocation falls back to the profile when bounds are infeasible', () => {
+  const result = optimizeAllocation({
+    profile: RISK_PROFILES.low,
+    assumptions: DEFAULT_ASSUMPTIONS,
+    mode: 'maxSharpe',
+    targetReturn: 0.05,
+    weightBounds: { ...DEFAULT_WEIGHT_BOUNDS, cash: { min: 60, max: 100 }, stocks: { min: 50, max: 90 } }
+  });
+  assert.deepEqual(result.allocation, { stocks: 30, bonds: 60, alternatives: 5, cash: 5 });
+  assert.equal(result.metrics, null);
+});
+
+test('optimizeAllocation can split the allocation across individual ETFs', () => {
+  const result = optimizeAllocation({
+    profile: RISK_PROFILES.high,
+    assumptions: DEFAULT_ASSUMPTIONS,
+    mode: 'maxSharpe',
+    targetReturn: 0.1,
+    weightBounds: DEFAULT_WEIGHT_BOUNDS,
+    universe: ASSET_UNIVERSE
+  });
+  const symbols = result.securityWeights.map(security => security.id);
+  assert.ok(symbols.includes('VTI') && symbols.includes('cash'));
+  assert.ok(Math.abs(sum(result.securityWeights.map(security => security.weight)) - 1) < 1e-6);
+});
+
+test('allocationFrontier matches the frontier optimizeAllocation computes and can be passed back in', () => {
+  const inputs = { assumptions: DEFAULT_ASSUMPTIONS, weightBounds: DEFAULT_WEIGHT_BOUNDS };
+  const frontier = allocationFrontier(inputs);
+  const optimize = (mode: 'maxSharpe' | 'minVariance', given: typeof frontier | null) =>
+    optimizeAllocation({ ...inputs, profile: RISK_PROFILES.medium, mode, targetReturn: 0.08, frontier: given });
+  assert.deepEqual(optimize('maxSharpe', null).frontier, frontier);
+  const reused = optimize('minVariance', frontier);
+  assert.equal(reused.frontier, frontier);
+  assert.deepEqual(reused.allocation, optimize('minVariance', null).allocation);
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RISK_PROFILES } from '../assumptions';
+import { RISK_QUESTIONS, interpolateRiskProfile, scoreRiskQuestionnaire } from '../questionnaire';
+
+const answerAll = (points: number) => Object.fromEntries(RISK_QUESTIONS.map(question => [question.id, points]));
+
+test('interpolateRiskProfile matches the anchors and blends between them', () => {
+  const medium = interpolateRiskProfile(RISK_PROFILES, 50);
+  assert.equal(medium.stocks, 60);
+  assert.equal(medium.maxRisk, 0.12);
+  const between = interpolateRiskProfile(RISK_PROFILES, 65);
+  assert.equal(between.stocks, 70);
+  assert.ok(Math.abs(between.maxRisk - 0.15) < 1e-12);
+  assert.equal(interpolateRiskProfile(RISK_PROFILES, 100).stocks, 80);
+});
+
+test('scoreRiskQuestionnaire scores the extremes', () => {
+  assert.equal(scoreRiskQuestionnaire(answerAll(0), RISK_PROFILES).profile.name, 'Conservative');
+  const aggressive = scoreRiskQuestionnaire(answerAll(4), RISK_PROFILES, new Date('2024-01-01T00:00:00Z'));
+  assert.equal(aggressive.score, 100);
+  assert.equal(aggressive.profile.name, 'Aggressive');
+  assert.equal(aggressive.completedAt, '2024-01-01T00:00:00.000Z');
+  assert.equal(aggressive.answers.length, RISK_QUESTIONS.length);
+});
+
+test('limited capacity caps an otherwise aggressive score', () => {
+  const answers = { ...answerAll(4), netWorthShare: 0, emergencyFund: 0 };
+  const assessment = scoreRiskQuestionnaire(answers, RISK_PROFILES);
+  assert.equal(assessment.score, 25);
+  assert.ok(assessment.rationale.some(line => /capped/.test(line)));
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { driftExceedsBands, simulateRebalancing } from '../rebalancing';
+
+const cov = [[0.16 * 0.16, 0], [0, 0.04 * 0.04]];
+
+test('driftExceedsBands checks absolute and relative bands', () => {
+  assert.equal(driftExceedsBands([0.66, 0.34], [0.6, 0.4], { absoluteBand: 0.05, relativeBand: 0 }), true);
+  assert.equal(driftExceedsBands([0.62, 0.38], [0.6, 0.4], { absoluteBand: 0.05, relativeBand: 0 }), false);
+  assert.equal(driftExceedsBands([0.62, 0.38], [0.6, 0.4], { absoluteBand: 0, relativeBand: 0.02 }), true);
+});
+
+test('calendar rebalancing happens on schedule', () => {
+  const result = simulateRebalancing({
+    targets: [0.6, 0.4], mu: [0.1, 0.04], cov,
+    policy: { mode: 'calendar', absoluteBand: 0.05, relativeBand: 0.25, costBps: 10 },
+    rebalanceFreq: 'quarterly', years: 2, paths: 20
+  });
+  assert.deepEqual(result.events.map(event => event.month), [3, 6, 9, 12, 15, 18, 21, 24]);
+  assert.equal(result.rebalancesPerYear, 4);
+  assert.ok(Math.abs(result.annualCostDrag - result.annualTurnover * 0.001) < 1e-15);
+});
+
+test('threshold rebalancing trades less often than monthly calendar rebalancing', () => {
+  const policy = { absoluteBand: 0.05, relativeBand: 0, costBps: 10 };
+  const threshold = simulateRebalancing({ targets: [0.6, 0.4], mu: [0.1, 0.04], cov, policy: { ...policy, mode: 'threshold' }, rebalanceFreq: 'monthly', years: 5, paths: 50 });
+  const monthly = simulateRebalancing({ targets: [0.6, 0.4], mu: [0.1, 0.04], cov, policy: { ...policy, mode: 'calendar' }, rebalanceFreq: 'monthly', years: 5, paths: 50 });
+  assert.ok(threshold.rebalancesPerYear < monthly.rebalancesPerYear);
+  threshold.events.forEach(event => assert.ok(event.maxDrift > 0.05));
+});
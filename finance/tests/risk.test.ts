@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCovariance } from '../matrix';
+import {
+  STRESS_SCENARIOS, applyStressScenario, expectedMaxDrawdown, historicalTailRisk, normalQuantile, parametricTailRisk, riskContributions
+} from '../risk';
+
+test('normalQuantile matches standard normal critical values', () => {
+  assert.ok(Math.abs(normalQuantile(0.95) - 1.644854) < 1e-6);
+  assert.ok(Math.abs(normalQuantile(0.99) - 2.326348) < 1e-6);
+  assert.ok(Math.abs(normalQuantile(0.5)) < 1e-12);
+  assert.ok(Math.abs(normalQuantile(0.001) + 3.090232) < 1e-6);
+});
+
+test('parametricTailRisk scales to the horizon and CVaR exceeds VaR', () => {
+  const annual = parametricTailRisk({ expectedReturn: 0, risk: 0.2, confidence: 0.95, horizonYears: 1 });
+  assert.ok(Math.abs(annual.valueAtRisk - 0.2 * 1.644854) < 1e-6);
+  assert.ok(Math.abs(annual.conditionalVaR - 0.2 * 2.062713) < 1e-6);
+  const monthly = parametricTailRisk({ expectedReturn: 0, risk: 0.2, confidence: 0.95, horizonYears: 1 / 12 });
+  assert.ok(Math.abs(monthly.valueAtRisk - annual.valueAtRisk / Math.sqrt(12)) < 1e-9);
+});
+
+test('historicalTailRisk averages the tail beyond the VaR cutoff', () => {
+  const returns = Array.from({ length: 21 }, (_, i) => (i - 10) / 100);
+  const risk = historicalTailRisk(returns, 0.9);
+  assert.ok(risk);
+  assert.ok(Math.abs(risk.valueAtRisk - 0.08) < 1e-12);
+  assert.ok(Math.abs(risk.conditionalVaR - 0.09) < 1e-12);
+  assert.equal(historicalTailRisk([], 0.95), null);
+});
+
+test('riskContributions sum to the portfolio volatility', () => {
+  const cov = buildCovariance([0.16, 0.04, 0.12, 0.01], [[1, 0.2, 0.5, 0], [0.2, 1, 0.1, 0], [0.5, 0.1, 1, 0], [0, 0, 0, 1]]);
+  const contributions = riskContributions({ stocks: 60, bonds: 30, alternatives: 10, cash: 0 }, cov);
+  const risk = contributions.reduce((sum, item) => sum + item.contribution, 0);
+  assert.ok(Math.abs(contributions.reduce((sum, item) => sum + item.percent, 0) - 1) < 1e-12);
+  assert.ok(risk > 0.09 && risk < 0.12);
+  assert.ok(contributions[0].percent > 0.8);
+  assert.equal(contributions[3].contribution, 0);
+});
+
+test('expectedMaxDrawdown grows with volatility', () => {
+  const calm = expectedMaxDrawdown({ expectedReturn: 0.05, risk: 0.05, years: 10, paths: 300 });
+  const volatile = expectedMaxDrawdown({ expectedReturn: 0.05, risk: 0.2, years: 10, paths: 300 });
+  assert.ok(calm > 0 && calm < volatile && volatile < 1);
+});
+
+test('applyStressScenario weights each shock by the allocation', () => {
+  const [gfc] = STRESS_SCENARIOS;
+  const result = applyStressScenario({ stocks: 50, bonds: 50, alternatives: 0, cash: 0 }, gfc);
+  assert.ok(Math.abs(result.portfolioReturn - (gfc.shocks.stocks + gfc.shocks.bonds) / 2) < 1e-12);
+  assert.ok(result.byClass.alternatives === 0);
+});
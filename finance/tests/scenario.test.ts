@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import houseView from '../../data/capital_market_assumptions.json';
+import { RISK_PROFILES } from '../assumptions';
+import { parseScenario, runScenario } from '../scenario';
+
+const currentPortfolio = { stocks: 60, bonds: 30, alternatives: 5, cash: 5 };
+
+test('runScenario optimizes within the profile and projects both portfolios', () => {
+  const result = runScenario({ currentPortfolio, riskTolerance: 'low', timeHorizon: 5 });
+  assert.deepEqual(result.profile, RISK_PROFILES.low);
+  assert.ok(result.optimized.metrics.risk <= RISK_PROFILES.low.maxRisk + 1e-3);
+  assert.equal(result.projection.length, 6);
+  assert.equal(result.projection[0].current, 100000);
+  assert.equal(result.requiredReturn.status, 'none');
+});
+
+test('runScenario can target the return a cash-flow plan requires', () => {
+  const result = runScenario({
+    currentPortfolio,
+    returnTarget: 'plan',
+    inflationRate: 0,
+    goals: [{ name: 'Retirement', year: 10, amount: 180000 }]
+  });
+  assert.equal(result.requiredReturn.status, 'ok');
+  assert.ok(result.projection[10].optimized >= 0);
+  assert.ok(result.optimized.metrics.expectedReturn - result.optimized.metrics.risk ** 2 / 2 >= (result.requiredReturn.rate ?? 0) - 2e-3);
+});
+
+test('runScenario splits the optimized classes across funds', () => {
+  const result = runScenario({ currentPortfolio });
+  const total = result.optimized.securities.reduce((sum, holding) => sum + holding.weight, 0);
+  assert.ok(Math.abs(total - 100) < 0.5);
+  assert.ok(result.optimized.securities.some(holding => holding.symbol === 'VXUS'));
+});
+
+test('runScenario charges fund expenses and the advisory fee like the dashboard', () => {
+  const result = runScenario({ currentPortfolio, timeHorizon: 10, advisoryFee: 1 });
+  const unadvised = runScenario({ currentPortfolio, timeHorizon: 10, advisoryFee: 0 });
+  assert.ok(Math.abs(result.fees.optimized.rate - unadvised.fees.optimized.rate - 0.01) < 1e-12);
+  assert.ok(unadvised.fees.current.rate > 0);
+  assert.ok(result.fees.optimized.paid > unadvised.fees.optimized.paid);
+  const last = result.projection[10];
+  assert.ok(last.optimizedNet < last.optimized && last.currentNet < last.current);
+  assert.ok(Math.abs(last.optimized - last.optimizedNet - result.fees.optimized.cost) <= 1);
+});
+
+test('parseScenario validates inline assumptions like an assumptions file', () => {
+  assert.throws(() => parseScenario({ currentPortfolio, assumptions: { returns: { stocks: 'high' } } }), /Invalid capital market assumptions/);
+  assert.throws(() => parseScenario({ currentPortfolio, advisoryFee: -1 }), /advisoryFee/);
+  const scenario = parseScenario({ currentPortfolio, assumptions: houseView });
+  assert.equal(scenario.assumptions?.id, houseView.id);
+  assert.ok(Number.isFinite(runScenario(scenario).optimized.metrics.expectedReturn));
+});
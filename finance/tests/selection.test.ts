@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ASSET_UNIVERSE, RISK_PROFILES } from '../assumptions';
+import { DEFAULT_ASSUMPTIONS } from '../cma';
+import { selectSecurities, validateCustomSecurity, withCustomSecurities } from '../selection';
+import type { CustomSecurity } from '../selection';
+
+const allocation = { stocks: 60, bonds: 30, alternatives: 5, cash: 5 };
+const shareOf = (holdings: { category: string; assetClass: string; classShare: number }[], category: string) =>
+  holdings.filter(holding => holding.category === category).reduce((sum, holding) => sum + holding.classShare, 0);
+
+test('selectSecurities keeps class weights, the home-bias target and the Growth cap', () => {
+  const selection = selectSecurities({ allocation, universe: ASSET_UNIVERSE, assumptions: DEFAULT_ASSUMPTIONS, profile: RISK_PROFILES.high });
+  const classTotal = (assetClass: string) => selection.securityWeights
+    .filter(item => item.assetClass === assetClass).reduce((sum, item) => sum + item.weight, 0);
+  assert.ok(Math.abs(classTotal('stocks') - 0.6) < 1e-6);
+  assert.ok(Math.abs(classTotal('bonds') - 0.3) < 1e-6);
+  assert.ok(Math.abs(classTotal('cash') - 0.05) < 1e-6);
+  assert.ok(Math.abs(shareOf(selection.holdings, 'International') - 0.3) < 1e-4);
+  assert.ok(shareOf(selection.holdings, 'Growth') <= 0.25 + 1e-4);
+  assert.deepEqual(selection.notes, []);
+  assert.equal(selection.metrics.assumptionSet, 'House view v1.0');
+});
+
+test('more aggressive profiles tilt toward higher-returning funds', () => {
+  const select = (level: 'low' | 'high') => selectSecurities({
+    allocation, universe: ASSET_UNIVERSE, assumptions: DEFAULT_ASSUMPTIONS, profile: RISK_PROFILES[level], policy: { internationalShare: 0, categoryCaps: {} }
+  });
+  assert.ok(select('high').metrics.expectedReturn >= select('low').metrics.expectedReturn - 1e-9);
+});
+
+test('category caps that cannot be met are relaxed with a note', () => {
+  const selection = selectSecurities({
+    allocation, universe: ASSET_UNIVERSE, assumptions: DEFAULT_ASSUMPTIONS, profile: RISK_PROFILES.medium,
+    policy: { internationalShare: 0.3, categoryCaps: { Government: 0.2, Municipal: 0.2, Treasury: 0.2 } }
+  });
+  assert.equal(selection.notes.length, 1);
+  assert.match(selection.notes[0], /bonds/);
+});
+
+test('custom securities join the universe with their own estimates', () => {
+  const custom: CustomSecurity = {
+    symbol: 'SCHD', name: 'Dividend ETF', price: 80, category: 'Dividend', taxEfficiency: 'efficient', expenseRatio: 0.0006,
+    assetClass: 'stocks', expectedReturn: 0.09, risk: 0.14
+  };
+  assert.deepEqual(validateCustomSecurity(custom, ASSET_UNIVERSE), []);
+  assert.match(validateCustomSecurity({ ...custom, symbol: 'VTI' }, ASSET_UNIVERSE)[0], /already/);
+
+  const extended = withCustomSecurities(ASSET_UNIVERSE, DEFAULT_ASSUMPTIONS, [custom]);
+  assert.equal(extended.universe.stocks.length, ASSET_UNIVERSE.stocks.length + 1);
+  assert.deepEqual(extended.assumptions.securities.SCHD, { expectedReturn: 0.09, risk: 0.14 });
+  const selection = selectSecurities({ allocation, universe: extended.universe, assumptions: extended.assumptions, profile: RISK_PROFILES.medium });
+  assert.ok(selection.holdings.some(holding => holding.symbol === 'SCHD'));
+});
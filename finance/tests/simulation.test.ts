@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRandom, percentile, runMonteCarlo } from '../simulation';
+
+test('createRandom is reproducible for a seed', () => {
+  const a = createRandom(42);
+  const b = createRandom(42);
+  const draws = Array.from({ length: 5 }, () => a());
+  assert.deepEqual(draws, Array.from({ length: 5 }, () => b()));
+  assert.ok(draws.every(x => x >= 0 && x < 1));
+});
+
+test('percentile interpolates between neighbours', () => {
+  assert.equal(percentile([0, 10, 20, 30], 0.5), 15);
+  assert.equal(percentile([0, 10, 20, 30], 1), 30);
+});
+
+test('runMonteCarlo bands are ordered and deterministic', () => {
+  const input = { initialValue: 100000, expectedReturn: 0.07, risk: 0.12, years: 10, goal: 150000, paths: 500 };
+  const result = runMonteCarlo(input);
+  assert.deepEqual(result, runMonteCarlo(input));
+  assert.equal(result.bands.length, 11);
+  result.bands.slice(1).forEach(band => {
+    assert.ok(band.p5 <= band.p25 && band.p25 <= band.p50 && band.p50 <= band.p75 && band.p75 <= band.p95);
+  });
+  assert.ok(result.goalProbability > 0 && result.goalProbability < 1);
+  assert.ok(result.drawdown95 <= result.worstDrawdown);
+});
+
+test('runMonteCarlo mean growth matches the expected return', () => {
+  const result = runMonteCarlo({ initialValue: 1, expectedReturn: 0.06, risk: 0, years: 5, goal: 0, paths: 10 });
+  assert.ok(Math.abs(result.bands[5].p50 - Math.round(Math.pow(1.06, 5))) < 1e-9);
+  const withFlows = runMonteCarlo({ initialValue: 1000, expectedReturn: 0, risk: 0, years: 2, goal: 0, netFlows: [0, -600, -600], paths: 10 });
+  assert.equal(withFlows.bands[2].p50, 0);
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildTradeList, tradesToCsv } from '../trades';
+import { planTaxAwareTrades } from '../tax';
+import type { Holding } from '../holdings';
+
+const classOf = (symbol: string) => (symbol === 'VTI' ? 'stocks' : symbol === 'BND' ? 'bonds' : symbol === 'CASH' ? 'cash' : null);
+
+test('buildTradeList sells before buying, in whole shares, above the minimum size', () => {
+  const { trades, skipped, cashAfter } = buildTradeList({
+    targetWeights: { VTI: 0.6, BND: 0.4, cash: 0 },
+    currentValues: { VTI: 9000, BND: 1000, cash: 0 },
+    prices: { VTI: 300, BND: 70 },
+    classOf,
+    totalValue: 10000,
+    minTradeSize: 100,
+    wholeShares: true,
+    cashBuffer: 0.01
+  });
+  assert.deepEqual(trades.map(trade => [trade.action, trade.symbol, trade.shares]), [['SELL', 'VTI', 10], ['BUY', 'BND', 42]]);
+  assert.equal(skipped.length, 0);
+  assert.equal(cashAfter, 3000 - 42 * 70);
+  assert.match(tradesToCsv(trades), /^Action,Symbol.*\nSELL,VTI,10,300\.00,3000\.00,stocks/);
+});
+
+test('tradesToCsv adds an account column for per-account trades', () => {
+  const csv = tradesToCsv([{ action: 'BUY', symbol: 'BND', assetClass: 'bonds', shares: 2, price: 70, amount: 140, account: 'Joint, Brokerage' }]);
+  assert.equal(csv, 'Account,Action,Symbol,Shares,Price,Amount,Asset Class\n"Joint, Brokerage",BUY,BND,2,70.00,140.00,bonds');
+});
+
+test('buildTradeList skips tickers without a price', () => {
+  const { skipped } = buildTradeList({
+    targetWeights: { XYZ: 1 }, currentValues: {}, prices: {}, classOf, totalValue: 1000, minTradeSize: 0, wholeShares: false, cashBuffer: 0
+  });
+  assert.deepEqual(skipped.map(skip => skip.reason), ['no price']);
+});
+
+test('planTaxAwareTrades sells losses first, nets gains and places bonds in tax-deferred accounts', () => {
+  const lot = (fields: Partial<Holding>): Holding => ({ id: 0, ticker: 'VTI', shares: 10, price: 300, costBasis: 0, account: 'Brokerage', purchaseDate: '', ...fields });
+  const holdings = [
+    lot({ costBasis: 1000, purchaseDate: '2015-01-01' }),
+    lot({ costBasis: 3500, purchaseDate: '2024-01-01' }),
+    lot({ ticker: 'CASH', shares: 1000, price: 1, costBasis: 1000, account: 'IRA' })
+  ];
+  const plan = planTaxAwareTrades({
+    trades: [
+      { action: 'SELL', symbol: 'VTI', assetClass: 'stocks', shares: 15, price: 300, amount: 4500 },
+      { action: 'BUY', symbol: 'BND', assetClass: 'bonds', shares: 10, price: 70, amount: 700 }
+    ],
+    holdings,
+    accountTypes: { IRA: 'taxDeferred', Brokerage: 'taxable' },
+    classOf,
+    taxEfficiencyOf: symbol => (symbol === 'BND' ? 'inefficient' : 'efficient'),
+    wholeShares: true,
+    rates: { shortTerm: 0.3, longTerm: 0.15 },
+    asOf: new Date('2024-06-01T00:00:00')
+  });
+  assert.deepEqual(plan.sales.map(sale => [sale.term, sale.shares, sale.gain]), [['short', 10, -500], ['long', 5, 1000]]);
+  assert.equal(plan.estimatedTax, 500 * 0.15);
+  assert.deepEqual(plan.purchases.map(purchase => [purchase.account, purchase.shares]), [['IRA', 10]]);
+});
+
+test('planTaxAwareTrades keeps trades that name an account inside that account', () => {
+  const holdings: Holding[] = [
+    { id: 1, ticker: 'VTI', shares: 10, price: 300, costBasis: 1000, account: 'Brokerage', purchaseDate: '2015-01-01' },
+    { id: 2, ticker: 'VTI', shares: 10, price: 300, costBasis: 3000, account: 'IRA', purchaseDate: '' },
+    { id: 3, ticker: 'CASH', shares: 1000, price: 1, costBasis: 1000, account: 'IRA', purchaseDate: '' }
+  ];
+  const plan = planTaxAwareTrades({
+    trades: [
+      { action: 'SELL', symbol: 'VTI', assetClass: 'stocks', shares: 5, price: 300, amount: 1500, account: 'Brokerage' },
+      { action: 'BUY', symbol: 'BND', assetClass: 'bonds', shares: 20, price: 70, amount: 1400, account: 'Brokerage' }
+    ],
+    holdings,
+    accountTypes: { IRA: 'taxDeferred', Brokerage: 'taxable' },
+    classOf,
+    taxEfficiencyOf: symbol => (symbol === 'BND' ? 'inefficient' : 'efficient'),
+    wholeShares: true,
+    rates: { shortTerm: 0.3, longTerm: 0.15 },
+    asOf: new Date('2024-06-01T00:00:00')
+  });
+  // Unpinned, the tax-free IRA lot would be sold and the bonds bought with the IRA's cash
+  assert.deepEqual(plan.sales.map(sale => [sale.account, sale.shares, sale.gain]), [['Brokerage', 5, 1000]]);
+  assert.deepEqual(plan.purchases.map(purchase => [purchase.account, purchase.shares]), [['Brokerage', 20]]);
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addScenarioVersion, createKeyValueStore } from '../versioning';
+
+const first = new Date('2026-01-05T10:00:00Z');
+const second = new Date('2026-01-06T10:00:00Z');
+
+test('addScenarioVersion numbers versions from 1 under the same name', () => {
+  const once = addScenarioVersion([], 'Retirement', { risk: 'moderate' }, first);
+  const twice = addScenarioVersion(once, 'Retirement', { risk: 'aggressive' }, second);
+  assert.equal(twice.length, 1);
+  assert.equal(twice[0].id, once[0].id);
+  assert.deepEqual(twice[0].versions.map(version => [version.version, version.risk, version.savedAt]), [
+    [1, 'moderate', first.toISOString()],
+    [2, 'aggressive', second.toISOString()]
+  ]);
+  assert.equal(once[0].versions.length, 1, 'the earlier list is left untouched');
+});
+
+test('addScenarioVersion matches names exactly and keeps ids unique', () => {
+  const base = addScenarioVersion([], 'Retirement', { risk: 'moderate' }, first);
+  const other = addScenarioVersion(base, 'retirement', { risk: 'conservative' }, first);
+  assert.deepEqual(other.map(scenario => scenario.name), ['Retirement', 'retirement']);
+  assert.equal(other[1].versions[0].version, 1);
+  assert.notEqual(other[0].id, other[1].id);
+  const third = addScenarioVersion(other, 'College', { risk: 'moderate' }, first);
+  assert.equal(new Set(third.map(scenario => scenario.id)).size, 3);
+});
+
+test('createKeyValueStore round-trips scenarios under one key', async () => {
+  const values = new Map<string, string>();
+  const store = createKeyValueStore({ getItem: key => values.get(key) ?? null, setItem: (key, value) => values.set(key, value) }, 'saved');
+  assert.deepEqual(await store.load(), []);
+  const scenarios = addScenarioVersion([], 'Retirement', { risk: 'moderate' }, first);
+  await store.save(scenarios);
+  assert.deepEqual([...values.keys()], ['saved']);
+  assert.deepEqual(await store.load(), scenarios);
+});
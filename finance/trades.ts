@@ -0,0 +1,92 @@
+import { csvCell } from './csv';
+import type { AssetClass } from './types';
+
+export type TradeAction = 'BUY' | 'SELL';
+
+export interface Trade {
+  action: TradeAction;
+  symbol: string;
+  assetClass: AssetClass | null;
+  shares: number;
+  price: number;
+  amount: number;
+}
+
+export interface SkippedTrade {
+  symbol: string;
+  amount: number;
+  reason: string;
+}
+
+export interface TradeListInput {
+  targetWeights: Record<string, number>;
+  currentValues: Record<string, number>;
+  prices: Record<string, number>;
+  classOf: (symbol: string) => AssetClass | null;
+  totalValue: number;
+  minTradeSize: number;
+  wholeShares: boolean;
+  // Fraction of the portfolio kept in cash
+  cashBuffer: number;
+}
+
+export interface TradeList {
+  trades: Trade[];
+  skipped: SkippedTrade[];
+  cashAfter: number;
+}
+
+// Turns target weights into per-ticker orders; cash is the residual, topped up to the cash buffer
+export const buildTradeList = ({ targetWeights, currentValues, prices, classOf, totalValue, minTradeSize, wholeShares, cashBuffer }: TradeListInput): TradeList => {
+  const investedWeight = Object.keys(targetWeights).reduce((sum, id) => sum + (id === 'cash' ? 0 : targetWeights[id]), 0);
+  const scale = investedWeight > 1 - cashBuffer && investedWeight > 0 ? (1 - cashBuffer) / investedWeight : 1;
+  const tickers = [...new Set([...Object.keys(targetWeights), ...Object.keys(currentValues)])].filter(id => id !== 'cash');
+
+  const trades: Trade[] = [];
+  const skipped: SkippedTrade[] = [];
+  tickers.forEach(symbol => {
+    const price = prices[symbol];
+    const current = currentValues[symbol] || 0;
+    const target = (targetWeights[symbol] || 0) * scale * totalValue;
+    const difference = target - current;
+    if (Math.abs(difference) < 0.005) return;
+    if (!(price > 0)) {
+      skipped.push({ symbol, amount: difference, reason: 'no price' });
+      return;
+    }
+
+    // Whole shares round toward zero so buys never exceed the dollars available
+    const rawShares = difference / price;
+    const shares = wholeShares ? Math.trunc(rawShares) : Math.round(rawShares * 1000) / 1000;
+    const amount = shares * price;
+    if (shares === 0 || Math.abs(amount) < minTradeSize) {
+      skipped.push({ symbol, amount: difference, reason: shares === 0 ? 'less than one share' : 'below minimum trade size' });
+      return;
+    }
+    trades.push({
+      action: shares > 0 ? 'BUY' : 'SELL',
+      symbol,
+      assetClass: classOf(symbol),
+      shares: Math.abs(shares),
+      price,
+      amount: Math.abs(amount)
+    });
+  });
+
+  // Sells first so they fund the buys
+  trades.sort((a, b) => (a.action === b.action ? b.amount - a.amount : a.action === 'SELL' ? -1 : 1));
+  const netCash = trades.reduce((sum, trade) => sum + (trade.action === 'SELL' ? trade.amount : -trade.amount), 0);
+  return { trades, skipped, cashAfter: (currentValues.cash || 0) + netCash };
+};
+
+// Trades that name their account (a household's per-account trades) get a leading Account column
+export const tradesToCsv = (trades: (Trade & { account?: string })[]): string => {
+  const byAccount = trades.some(trade => trade.account !== undefined);
+  return [
+    `${byAccount ? 'Account,' : ''}Action,Symbol,Shares,Price,Amount,Asset Class`,
+    ...trades.map(trade => [
+      ...(byAccount ? [csvCell(trade.account ?? '')] : []),
+      trade.action, trade.symbol, trade.shares, trade.price.toFixed(2), trade.amount.toFixed(2), trade.assetClass
+    ].join(','))
+  ].join('\n');
+};
@@ -0,0 +1,100 @@
+// Shared types for the finance engine. Allocations are percentages (0–100); weights,
+// returns and risks are decimals (0.08 = 8%).
+
+export type AssetClass = 'stocks' | 'bonds' | 'alternatives' | 'cash';
+
+export type Allocation = Record<AssetClass, number>;
+
+export type Matrix = number[][];
+
+export interface RiskProfile extends Allocation {
+  name?: string;
+  maxRisk: number;
+  targetReturn: number;
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type RiskProfiles = Record<RiskLevel, RiskProfile>;
+
+export interface PortfolioMetrics {
+  expectedReturn: number;
+  risk: number;
+  sharpeRatio: number;
+  // Label of the capital market assumptions the figures were computed with
+  assumptionSet: string;
+}
+
+export type TaxEfficiency = 'inefficient' | 'efficient' | 'exempt';
+
+export interface Security {
+  symbol: string;
+  name: string;
+  price: number;
+  category: string;
+  taxEfficiency: TaxEfficiency;
+  // Annual fund expenses as a fraction of assets
+  expenseRatio: number;
+}
+
+export interface ReturnRisk {
+  expectedReturn: number;
+  risk: number;
+}
+
+// A security together with the return and risk the active assumptions give it
+export interface AssetRecommendation extends Security, ReturnRisk {}
+
+export type AssetUniverse = Record<Exclude<AssetClass, 'cash'>, Security[]>;
+
+export type TickersByClass = Partial<Record<AssetClass, string[]>>;
+
+// One named, versioned set of expected returns, volatilities and correlations. Securities
+// without their own estimate use their asset class's figures.
+export interface CapitalMarketAssumptions {
+  id: string;
+  name: string;
+  version: string;
+  asOf: string;
+  source: string;
+  returns: Allocation;
+  risks: Allocation;
+  correlations: Matrix;
+  riskFreeRate: number;
+  securities: Record<string, ReturnRisk>;
+}
+
+export type OptimizationMode = 'maxSharpe' | 'minVariance' | 'targetReturn';
+
+export type RebalanceFrequency = 'monthly' | 'quarterly' | 'annually' | 'never';
+
+export interface WeightBound {
+  min: number;
+  max: number;
+}
+
+export interface Bound {
+  lower: number;
+  upper: number;
+}
+
+export interface WeightGroup extends Bound {
+  indices: number[];
+}
+
+export interface WeightConstraints {
+  lower: number[];
+  upper: number[];
+  groups: WeightGroup[];
+}
+
+export interface SecurityWeight {
+  id: string;
+  assetClass: AssetClass;
+  weight: number;
+}
+
+export interface FrontierPoint {
+  risk: number;
+  return: number;
+}
@@ -0,0 +1,55 @@
+// Saved scenarios: each named scenario keeps every version saved under its name, oldest first
+// A version is the saved snapshot plus its number (1 for the first save) and ISO timestamp
+export type ScenarioVersion<Snapshot = Record<string, unknown>> = Snapshot & {
+  version: number;
+  savedAt: string;
+};
+
+export interface SavedScenario<Snapshot = Record<string, unknown>> {
+  id: string;
+  name: string;
+  versions: ScenarioVersion<Snapshot>[];
+}
+
+// Where saved scenarios live; the dashboard plugs in browser storage or a JSON file
+export interface ScenarioStore<Snapshot = Record<string, unknown>> {
+  name: string;
+  load: () => Promise<SavedScenario<Snapshot>[]>;
+  save: (scenarios: SavedScenario<Snapshot>[]) => Promise<void>;
+}
+
+// The part of the Web Storage API the key-value store needs, so tests can pass a Map-backed stand-in
+export interface KeyValueStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+}
+
+// Keeps all scenarios as one JSON value under a single key (window.localStorage in the dashboard)
+export const createKeyValueStore = <Snapshot = Record<string, unknown>>(
+  storage: KeyValueStorage,
+  key = 'portfolio-optimizer-scenarios',
+  name = 'Browser storage'
+): ScenarioStore<Snapshot> => ({
+  name,
+  load: async () => JSON.parse(storage.getItem(key) || '[]'),
+  save: async scenarios => storage.setItem(key, JSON.stringify(scenarios))
+});
+
+// Appends a version to the scenario with this exact name, creating the scenario if there is none.
+// Returns a new list and leaves the given one untouched; ids stay unique even when saved in the same millisecond.
+export const addScenarioVersion = <Snapshot extends object>(
+  scenarios: SavedScenario<Snapshot>[],
+  name: string,
+  snapshot: Snapshot,
+  savedAt: Date = new Date()
+): SavedScenario<Snapshot>[] => {
+  const existing = scenarios.find(scenario => scenario.name === name);
+  const version: ScenarioVersion<Snapshot> = { version: existing ? existing.versions.length + 1 : 1, savedAt: savedAt.toISOString(), ...snapshot };
+  if (existing) {
+    return scenarios.map(scenario => (scenario === existing ? { ...scenario, versions: [...scenario.versions, version] } : scenario));
+  }
+  const ids = new Set(scenarios.map(scenario => scenario.id));
+  let stamp = savedAt.getTime();
+  while (ids.has(`${stamp}`)) stamp += 1;
+  return [...scenarios, { id: `${stamp}`, name, versions: [version] }];
+};
@@ -1,6 +1,240 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { LineChart, Line, AreaChart, Area, PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
-import { Moon, Sun, Info, TrendingUp, DollarSign, Shield, AlertTriangle, CheckCircle, BookOpen, Calculator } from 'lucide-react';
+import { LineChart, Line, AreaChart, Area, ComposedChart, PieChart, Pie, Cell, BarChart, Bar, ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
+import { Moon, Sun, Info, TrendingUp, DollarSign, Shield, AlertTriangle, CheckCircle, BookOpen, Calculator, History, Upload, Download, Save, Printer, Activity } from 'lucide-react';
+import {
+  ASSET_CLASSES, ASSET_UNIVERSE, DEFAULT_ASSUMPTIONS, DEFAULT_WEIGHT_BOUNDS, RISK_PROFILES,
+  RISK_QUESTIONS, RISK_DIMENSIONS, ACCOUNT_TYPES, buildCovariance, validateCorrelationMatrix, toPercentages, toAllocation,
+  optimizeAllocation, allocationFrontier, calculateMetrics, growthRate, runMonteCarlo, buildCashFlowSchedule,
+  netCashFlows, requiredGrowthRate, parseReturnsCsv, toTickerWeights, runBacktest, createHolding,
+  reserveHoldingIds, classifyTicker, parseHoldingsCsv, buildTradeList, tradesToCsv, planTaxAwareTrades, simulateRebalancing,
+  scoreRiskQuestionnaire, tickersOf, assumptionLabel, parseAssumptions, assumptionsToJson, recommendationsFor, parsePricesCsv,
+  deriveAssumptions, MIN_HISTORY_MONTHS, VAR_CONFIDENCE_LEVELS, STRESS_SCENARIOS, parametricTailRisk, historicalTailRisk,
+  expectedMaxDrawdown, riskContributions, applyStressScenario, DEFAULT_SELECTION_POLICY, INTERNATIONAL_CATEGORY, selectSecurities,
+  describeSecurityWeights, validateCustomSecurity, withCustomSecurities, NO_CONSTRAINTS, excludeSecurities, householdAccounts,
+  accountTypesOf, rollUpHousehold, placeHouseholdAllocation, planAccountTrades, portfolioExpenseRatio, projectNetOfFees, BENCHMARKS,
+  brinsonAttribution, addScenarioVersion, createKeyValueStore
+} from './finance';
+import bundledReturns from './data/monthly_returns.json';
+
+const downloadFile = (filename, content, type) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+let nextGoalId = 1;
+
+const pickJsonFile = () => new Promise<string>((resolve, reject) => {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = '.json,application/json';
+  input.onchange = () => (input.files?.[0] ? input.files[0].text().then(resolve, reject) : reject(new Error('No file selected')));
+  input.click();
+});
+
+// Scenario store (see ScenarioStore in finance) that reads and writes a JSON file chosen by the user. Uses the
+// File System Access API where the browser has it, so later saves overwrite the same file; elsewhere saves download a copy.
+const createJsonFileAdapter = () => {
+  // Not yet in every lib.dom, hence the indexed access
+  const showOpenFilePicker = window['showOpenFilePicker'];
+  const showSaveFilePicker = window['showSaveFilePicker'];
+  let handle = null;
+  const types = [{ description: 'Scenario file', accept: { 'application/json': ['.json'] } }];
+  return {
+    name: 'JSON file',
+    load: async () => {
+      if (showOpenFilePicker) {
+        [handle] = await showOpenFilePicker.call(window, { types });
+        return JSON.parse(await (await handle.getFile()).text());
+      }
+      return JSON.parse(await pickJsonFile());
+    },
+    save: async (scenarios) => {
+      const content = JSON.stringify(scenarios, null, 2);
+      if (!showSaveFilePicker) {
+        downloadFile('scenarios.json', content, 'application/json');
+        return;
+      }
+      if (!handle) handle = await showSaveFilePicker.call(window, { suggestedName: 'scenarios.json', types });
+      const writable = await handle.createWritable();
+      await writable.write(content);
+      await writable.close();
+    }
+  };
+};
+
+// Proposal report helpers. The report is one self-contained HTML document (inline CSS and SVG,
+// no scripts, fonts or images from the network) so it renders offline and prints to PDF.
+const DEFAULT_DISCLOSURES = [
+  'This proposal is for discussion purposes only and does not constitute an offer or solicitation to buy or sell any security.',
+  'Expected returns, risk figures and projections are hypothetical, based on long-term capital market assumptions, and are not guarantees of future results. Actual results will vary.',
+  'Investing involves risk, including the possible loss of principal. Diversification and rebalancing do not ensure a profit or protect against loss in declining markets.',
+  'Exchange-traded funds are sold by prospectus. Please consider the investment objectives, risks, charges and expenses carefully before investing.',
+  'This material does not provide tax or legal advice. Please consult your tax advisor regarding your specific situation.'
+].join('\n\n');
+
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const renderPieSvg = (allocation, colors, size = 180) => {
+  const radius = size / 2 - 4;
+  const center = size / 2;
+  const slices = ASSET_CLASSES.map((asset, i) => ({ value: Math.max(0, allocation[asset]), color: colors[i % colors.length] }))
+    .filter(slice => slice.value > 0);
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  let angle = -Math.PI / 2;
+  const paths = slices.map(slice => {
+    if (slice.value === total) return `<circle cx="${center}" cy="${center}" r="${radius}" fill="${slice.color}" />`;
+    const sweep = (slice.value / total) * 2 * Math.PI;
+    const [x1, y1] = [center + radius * Math.cos(angle), center + radius * Math.sin(angle)];
+    angle += sweep;
+    const [x2, y2] = [center + radius * Math.cos(angle), center + radius * Math.sin(angle)];
+    return `<path d="M${center},${center} L${x1.toFixed(2)},${y1.toFixed(2)} A${radius},${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2.toFixed(2)},${y2.toFixed(2)} Z" fill="${slice.color}" />`;
+  });
+  return `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg">${paths.join('')}</svg>`;
+};
+
+const renderLineSvg = (series, width = 640, height = 240) => {
+  const pad = { top: 12, right: 16, bottom: 28, left: 64 };
+  const points = series.flatMap(line => line.values);
+  const maxValue = Math.max(...points) * 1.05 || 1;
+  const years = series[0].values.length - 1 || 1;
+  const x = (year) => pad.left + (year / years) * (width - pad.left - pad.right);
+  const y = (value) => height - pad.bottom - (value / maxValue) * (height - pad.top - pad.bottom);
+  const gridLines = [0, 0.25, 0.5, 0.75, 1].map(fraction => {
+    const value = maxValue * fraction;
+    return `<line x1="${pad.left}" x2="${width - pad.right}" y1="${y(value)}" y2="${y(value)}" stroke="#e5e7eb" />`
+      + `<text x="${pad.left - 6}" y="${y(value) + 4}" text-anchor="end" font-size="10">$${Math.round(value / 1000).toLocaleString()}k</text>`;
+  });
+  const yearLabels = series[0].values.map((_, year) => (year % Math.max(1, Math.ceil(years / 10)) === 0
+    ? `<text x="${x(year)}" y="${height - 10}" text-anchor="middle" font-size="10">${year}</text>`
+    : ''));
+  const lines = series.map(line => `<polyline fill="none" stroke="${line.color}" stroke-width="2" points="${line.values.map((value, year) => `${x(year).toFixed(1)},${y(value).toFixed(1)}`).join(' ')}" />`);
+  return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">${gridLines.join('')}${yearLabels.join('')}${lines.join('')}</svg>`;
+};
+
+const buildProposalHtml = ({ settings, inputs, current, optimized, projection, outcomes, dollarView, actions, trades, funds, colors }) => {
+  const pct = (value) => `${(value * 100).toFixed(1)}%`;
+  const money = (value) => `$${Math.round(value).toLocaleString()}`;
+  const classLabel = (asset) => asset.charAt(0).toUpperCase() + asset.slice(1);
+  const legend = ASSET_CLASSES.map((asset, i) => `<tr><td><span class="swatch" style="background:${colors[i]}"></span>${classLabel(asset)}</td><td>${current.allocation[asset]}%</td><td>${optimized.allocation[asset]}%</td></tr>`).join('');
+  const years = projection.length - 1;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(settings.clientName ? `Portfolio Proposal – ${settings.clientName}` : 'Portfolio Proposal')}</title>
+<style>
+  @page { margin: 18mm; }
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111827; font-size: 12px; line-height: 1.5; margin: 0 auto; max-width: 800px; padding: 24px; }
+  header { border-bottom: 3px solid #2563eb; padding-bottom: 12px; margin-bottom: 24px; display: flex; justify-content: space-between; align-items: flex-end; }
+  h1 { font-size: 22px; margin: 0; color: #1e3a8a; }
+  h2 { font-size: 15px; color: #1e3a8a; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 28px; }
+  section { page-break-inside: avoid; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #f3f4f6; }
+  th { background: #f9fafb; font-weight: 600; }
+  .muted { color: #6b7280; }
+  .charts { display: flex; gap: 24px; align-items: center; }
+  .chart { text-align: center; }
+  .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 6px; border-radius: 2px; }
+  .increase { color: #16a34a; }
+  .decrease { color: #dc2626; }
+  .disclosures { font-size: 10px; color: #4b5563; white-space: pre-line; }
+</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>${escapeHtml(settings.firmName || 'Portfolio Proposal')}</h1>
+    <div class="muted">${escapeHtml(settings.firmContact)}</div>
+  </div>
+  <div style="text-align:right">
+    ${settings.clientName ? `<div><strong>Prepared for ${escapeHtml(settings.clientName)}</strong></div>` : ''}
+    ${settings.advisorName ? `<div>by ${escapeHtml(settings.advisorName)}</div>` : ''}
+    <div class="muted">${new Date().toLocaleDateString()}</div>
+  </div>
+</header>
+
+<section>
+  <h2>Your Inputs</h2>
+  <table>${inputs.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>
+</section>
+
+<section>
+  <h2>Current vs Proposed Allocation</h2>
+  <div class="charts">
+    <div class="chart">${renderPieSvg(current.allocation, colors)}<div>Current</div></div>
+    <div class="chart">${renderPieSvg(optimized.allocation, colors)}<div>Proposed</div></div>
+    <table style="flex:1"><tr><th>Asset class</th><th>Current</th><th>Proposed</th></tr>${legend}</table>
+  </div>
+</section>
+
+<section>
+  <h2>Portfolio Metrics</h2>
+  <table>
+    <tr><th>Metric</th><th>Current</th><th>Proposed</th></tr>
+    <tr><td>Expected return</td><td>${pct(current.metrics.expectedReturn)}</td><td>${pct(optimized.metrics.expectedReturn)}</td></tr>
+    <tr><td>Risk (volatility)</td><td>${pct(current.metrics.risk)}</td><td>${pct(optimized.metrics.risk)}</td></tr>
+    <tr><td>Sharpe ratio</td><td>${current.metrics.sharpeRatio.toFixed(2)}</td><td>${optimized.metrics.sharpeRatio.toFixed(2)}</td></tr>
+    <tr><td>Annual fees (fund expenses + advisory)</td><td>${(current.fees.rate * 100).toFixed(2)}%</td><td>${(optimized.fees.rate * 100).toFixed(2)}%</td></tr>
+    <tr><td>Fees paid over ${years} years</td><td>${money(current.fees.paid)}</td><td>${money(optimized.fees.paid)}</td></tr>
+  </table>
+  <p class="muted">Based on ${escapeHtml(optimized.metrics.assumptionSet)} capital market assumptions.</p>
+</section>
+
+<section>
+  <h2>Growth Projection</h2>
+  ${renderLineSvg([
+    { values: projection.map(point => point.current), color: colors[0] },
+    { values: projection.map(point => point.optimized), color: colors[1] }
+  ])}
+  <div><span class="swatch" style="background:${colors[0]}"></span>Current &nbsp; <span class="swatch" style="background:${colors[1]}"></span>Proposed</div>
+  <table style="margin-top:8px">
+    <tr><th>After ${years} years</th><th>Expected</th><th>Pessimistic (5th pct.)</th><th>Median</th><th>Optimistic (95th pct.)</th></tr>
+    ${outcomes.map(outcome => `<tr><td>${outcome.label}</td><td>${money(outcome.expected)}</td><td>${money(outcome.p5)}</td><td>${money(outcome.p50)}</td><td>${money(outcome.p95)}</td></tr>`).join('')}
+  </table>
+  <p class="muted">Values in ${dollarView === 'real' ? "today's dollars" : 'nominal dollars'}. Percentile outcomes come from a Monte Carlo simulation of monthly returns.</p>
+</section>
+
+<section>
+  <h2>Rebalancing Actions</h2>
+  <table>
+    <tr><th>Asset class</th><th>Action</th><th>Current → Proposed</th></tr>
+    ${actions.map(action => `<tr><td>${classLabel(action.asset)}</td><td class="${action.difference > 0 ? 'increase' : action.difference < 0 ? 'decrease' : ''}">${action.label}</td><td>${action.current}% → ${action.optimized}%</td></tr>`).join('')}
+  </table>
+  ${trades.length > 0 ? `
+  <table style="margin-top:12px">
+    <tr>${trades[0].account !== undefined ? '<th>Account</th>' : ''}<th>Trade</th><th>Symbol</th><th>Shares</th><th>Amount</th></tr>
+    ${trades.map(trade => `<tr>${trade.account !== undefined ? `<td>${escapeHtml(trade.account || 'Unnamed account')}</td>` : ''}<td>${trade.action}</td><td>${escapeHtml(trade.symbol)}</td><td>${trade.shares.toLocaleString()}</td><td>${money(trade.amount)}</td></tr>`).join('')}
+  </table>` : ''}
+</section>
+
+<section>
+  <h2>Recommended Funds</h2>
+  <table>
+    <tr><th>Symbol</th><th>Fund</th><th>Asset class</th><th>Category</th><th>Weight</th><th>Expected return</th><th>Risk</th><th>Expense ratio</th></tr>
+    ${funds.map(fund => `<tr><td>${escapeHtml(fund.symbol)}</td><td>${escapeHtml(fund.name)}</td><td>${classLabel(fund.assetClass)}</td><td>${escapeHtml(fund.category)}</td><td>${fund.weight.toFixed(1)}%</td><td>${pct(fund.expectedReturn)}</td><td>${pct(fund.risk)}</td><td>${(fund.expenseRatio * 100).toFixed(2)}%</td></tr>`).join('')}
+  </table>
+</section>
+
+<section>
+  <h2>Important Disclosures</h2>
+  <div class="disclosures">${escapeHtml(settings.disclosures)}</div>
+</section>
+</body>
+</html>`;
+};
+
+const MAX_COMPARED_SCENARIOS = 4;
+const SCENARIO_COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300'];
 
 const PortfolioOptimizer = () => {
   const [darkMode, setDarkMode] = useState(false);
@@ -9,97 +243,350 @@ const PortfolioOptimizer = () => {
   
   // User inputs
   const [riskTolerance, setRiskTolerance] = useState('medium');
+  const [questionnaireAnswers, setQuestionnaireAnswers] = useState({});
+  const [riskAssessment, setRiskAssessment] = useState(null);
+  const [showQuestionnaire, setShowQuestionnaire] = useState(false);
   const [expectedReturn, setExpectedReturn] = useState(8);
   const [timeHorizon, setTimeHorizon] = useState(10);
-  const [currentPortfolio, setCurrentPortfolio] = useState({
+  const [portfolioSource, setPortfolioSource] = useState('percentages');
+  const [manualPortfolio, setManualPortfolio] = useState({
     stocks: 60,
     bonds: 30,
     alternatives: 5,
     cash: 5
   });
+  const [holdings, setHoldings] = useState([]);
+  const [holdingsErrors, setHoldingsErrors] = useState([]);
+  // Household: owner, tax treatment and restrictions of each account named on the holdings
+  const [accountSettings, setAccountSettings] = useState({});
+
+  // Trade list settings
+  const [minTradeSize, setMinTradeSize] = useState(100);
+  const [wholeShares, setWholeShares] = useState(true);
+  const [cashBuffer, setCashBuffer] = useState(1);
+  const [priceOverrides, setPriceOverrides] = useState({});
+
+  // Tax settings
+  const [taxRates, setTaxRates] = useState({ shortTerm: 32, longTerm: 15 });
   
   // Advanced settings
   const [investmentAmount, setInvestmentAmount] = useState(100000);
+  // Annual advisory fee (% of assets), charged on top of the funds' expense ratios
+  const [advisoryFee, setAdvisoryFee] = useState(1);
   const [rebalanceFreq, setRebalanceFreq] = useState('quarterly');
+  const [rebalancePolicy, setRebalancePolicy] = useState({ mode: 'calendar', absoluteBand: 5, relativeBand: 25, costBps: 10 });
 
-  // Asset data for recommendations
-  const assetData = {
-    stocks: [
-      { symbol: 'VTI', name: 'Total Stock Market ETF', risk: 0.15, expectedReturn: 0.10, category: 'US Equity' },
-      { symbol: 'VXUS', name: 'International Stocks ETF', risk: 0.18, expectedReturn: 0.09, category: 'International' },
-      { symbol: 'QQQ', name: 'Nasdaq 100 ETF', risk: 0.22, expectedReturn: 0.12, category: 'Growth' },
-      { symbol: 'VTV', name: 'Value Stocks ETF', risk: 0.16, expectedReturn: 0.09, category: 'Value' }
-    ],
-    bonds: [
-      { symbol: 'BND', name: 'Total Bond Market ETF', risk: 0.04, expectedReturn: 0.04, category: 'Government' },
-      { symbol: 'VTEB', name: 'Tax-Exempt Bond ETF', risk: 0.05, expectedReturn: 0.035, category: 'Municipal' },
-      { symbol: 'SCHZ', name: 'Treasury ETF', risk: 0.03, expectedReturn: 0.035, category: 'Treasury' }
-    ],
-    alternatives: [
-      { symbol: 'VNQ', name: 'Real Estate ETF', risk: 0.19, expectedReturn: 0.08, category: 'REITs' },
-      { symbol: 'IAU', name: 'Gold ETF', risk: 0.16, expectedReturn: 0.05, category: 'Commodities' },
-      { symbol: 'DBC', name: 'Commodities ETF', risk: 0.20, expectedReturn: 0.06, category: 'Commodities' }
-    ]
+  // Optimizer settings
+  const [optimizationMode, setOptimizationMode] = useState('targetReturn');
+  const [universe, setUniverse] = useState('assetClasses');
+  const [longOnly, setLongOnly] = useState(true);
+  const [weightBounds, setWeightBounds] = useState(DEFAULT_WEIGHT_BOUNDS);
+  const [constraints, setConstraints] = useState(NO_CONSTRAINTS);
+  const [correlations, setCorrelations] = useState(DEFAULT_ASSUMPTIONS.correlations);
+
+  // Capital market assumptions: the bundled house view plus any uploaded or estimated sets
+  const [assumptionSets, setAssumptionSets] = useState([DEFAULT_ASSUMPTIONS]);
+  const [assumptionSetId, setAssumptionSetId] = useState(DEFAULT_ASSUMPTIONS.id);
+  const [assumptionMessages, setAssumptionMessages] = useState([]);
+  const [priceHistory, setPriceHistory] = useState(null);
+  const [shrinkage, setShrinkage] = useState(25);
+
+  // Second-stage fund selection and user-added funds
+  const [selectionPolicy, setSelectionPolicy] = useState(DEFAULT_SELECTION_POLICY);
+  const [customSecurities, setCustomSecurities] = useState([]);
+  const [newSecurity, setNewSecurity] = useState({
+    symbol: '', name: '', assetClass: 'stocks', category: '', price: 100, expectedReturn: 8, risk: 15, expenseRatio: 0.1, taxEfficiency: 'efficient'
+  });
+  const [newSecurityErrors, setNewSecurityErrors] = useState([]);
+
+  // Cash-flow plan, in today's dollars
+  const [annualContribution, setAnnualContribution] = useState(0);
+  const [withdrawalPlan, setWithdrawalPlan] = useState({ amount: 0, startYear: 10 });
+  const [plannedGoals, setPlannedGoals] = useState([]);
+  const [inflationRate, setInflationRate] = useState(2.5);
+  const [dollarView, setDollarView] = useState('nominal');
+  const [returnTargetSource, setReturnTargetSource] = useState('slider');
+
+  // Performance attribution
+  const [benchmarkId, setBenchmarkId] = useState(BENCHMARKS[0].id);
+
+  // Simulation settings
+  const [goalAmount, setGoalAmount] = useState(200000);
+  const [simulationSeed, setSimulationSeed] = useState(1);
+  const [fanPortfolio, setFanPortfolio] = useState('optimized');
+
+  // Backtest data: bundled history unless the user uploads their own
+  const [uploadedHistory, setUploadedHistory] = useState(null);
+  const [historyErrors, setHistoryErrors] = useState([]);
+
+  // Saved scenarios
+  const [storageKind, setStorageKind] = useState('local');
+  const [scenarios, setScenarios] = useState([]);
+  const [scenarioName, setScenarioName] = useState('');
+  const [scenarioStatus, setScenarioStatus] = useState(null);
+  const [comparedVersions, setComparedVersions] = useState([]);
+
+  // Proposal report
+  const [reportSettings, setReportSettings] = useState({
+    firmName: '',
+    firmContact: '',
+    advisorName: '',
+    clientName: '',
+    disclosures: DEFAULT_DISCLOSURES
+  });
+
+  // Fund universe: the bundled ETFs plus any the user added, with their estimates layered on the selected assumption set
+  const baseAssumptions = assumptionSets.find(set => set.id === assumptionSetId) || DEFAULT_ASSUMPTIONS;
+  const customized = withCustomSecurities(ASSET_UNIVERSE, baseAssumptions, customSecurities);
+  const securityUniverse = customized.universe;
+  const tickersByClass = tickersOf(securityUniverse);
+
+  // Current portfolio: typed-in percentages scaled to 100%, or rolled up from the holdings table
+  const manualTotal = ASSET_CLASSES.reduce((sum, asset) => sum + manualPortfolio[asset], 0);
+  const normalizeManual = () => toAllocation(toPercentages(ASSET_CLASSES.map(asset => manualPortfolio[asset] / manualTotal)));
+  const accounts = householdAccounts(holdings, accountSettings);
+  const holdingsRollUp = rollUpHousehold(holdings, accounts, tickersByClass);
+  const currentAllocation = portfolioSource === 'holdings'
+    ? holdingsRollUp.allocation
+    : manualTotal > 0 && manualTotal !== 100 ? normalizeManual() : manualPortfolio;
+  // Rebuilt on every render, so keep one object per set of percentages; the backtest, risk and trade memos depend on it
+  const currentPortfolio = useMemo(() => currentAllocation, [ASSET_CLASSES.map(asset => currentAllocation[asset]).join()]);
+
+  const holdingsWarnings = [
+    ...holdingsErrors,
+    ...holdingsRollUp.unclassified.map(ticker => `${ticker} is not in the asset universe and is left out of the allocation`)
+  ];
+
+  const updateHolding = (id, field, value) => {
+    setHoldings(prev => prev.map(holding => (holding.id === id ? { ...holding, [field]: value } : holding)));
+  };
+
+  const updateAccount = (name, field, value) => {
+    setAccountSettings(prev => ({ ...prev, [name]: { ...prev[name], [field]: value } }));
+  };
+
+  const toggleAccountExclusion = (account, field, value) => {
+    const list = account.restrictions[field];
+    updateAccount(account.name, 'restrictions', {
+      ...account.restrictions,
+      [field]: list.includes(value) ? list.filter(item => item !== value) : [...list, value]
+    });
+  };
+
+  const handleHoldingsUpload = (e) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      const parsed = parseHoldingsCsv(text, tickersByClass);
+      setHoldingsErrors(parsed.errors);
+      setHoldings(parsed.holdings);
+      setPortfolioSource('holdings');
+    });
+    e.target.value = '';
   };
 
   // Risk profiles
-  const riskProfiles = {
-    low: { stocks: 30, bonds: 60, alternatives: 5, cash: 5, maxRisk: 0.08, targetReturn: 0.05 },
-    medium: { stocks: 60, bonds: 30, alternatives: 8, cash: 2, maxRisk: 0.12, targetReturn: 0.08 },
-    high: { stocks: 80, bonds: 15, alternatives: 5, cash: 0, maxRisk: 0.18, targetReturn: 0.12 }
+  const riskProfiles = RISK_PROFILES;
+
+  // 'scored' uses the continuous profile from the completed questionnaire
+  const activeProfile = riskTolerance === 'scored' && riskAssessment ? riskAssessment.profile : riskProfiles[riskTolerance];
+
+  // Fall back to the set's own correlations while the edited matrix is invalid
+  const correlationErrors = validateCorrelationMatrix(correlations);
+  const correlationsEdited = correlationErrors.length === 0 && JSON.stringify(correlations) !== JSON.stringify(baseAssumptions.correlations);
+  const activeCorrelations = correlationErrors.length === 0 ? correlations : baseAssumptions.correlations;
+  // Capital market assumptions, with the correlation edits layered on top of the selected set
+  const assumptions = {
+    ...customized.assumptions,
+    version: correlationsEdited ? `${baseAssumptions.version}, edited correlations` : baseAssumptions.version,
+    correlations: activeCorrelations
   };
+  const assumptionsLabel = assumptionLabel(assumptions);
+  const classReturns = assumptions.returns;
+  const classRisks = assumptions.risks;
+  const classCovariance = buildCovariance(ASSET_CLASSES.map(asset => classRisks[asset]), activeCorrelations);
 
-  // Modern Portfolio Theory optimization
-  const optimizePortfolio = useMemo(() => {
-    const profile = riskProfiles[riskTolerance];
-    const adjustmentFactor = expectedReturn / (profile.targetReturn * 100);
-    
-    // ML-inspired optimization: adjust allocations based on user preferences
-    const optimized = {
-      stocks: Math.min(90, Math.max(20, profile.stocks * adjustmentFactor)),
-      bonds: Math.min(70, Math.max(10, profile.bonds * (2 - adjustmentFactor))),
-      alternatives: Math.min(20, Math.max(0, profile.alternatives)),
-      cash: Math.max(0, 100 - (profile.stocks * adjustmentFactor + profile.bonds * (2 - adjustmentFactor) + profile.alternatives))
-    };
+  // Asset data for recommendations
+  const assetData = recommendationsFor(securityUniverse, assumptions);
+
+  // Adds a set, replacing any earlier set with the same id
+  const addAssumptionSet = (set) => {
+    setAssumptionSets(prev => [...prev.filter(item => item.id !== set.id), set]);
+    setAssumptionSetId(set.id);
+  };
+
+  const selectAssumptionSet = (id) => {
+    const set = assumptionSets.find(item => item.id === id);
+    if (!set) return;
+    setAssumptionSetId(id);
+    setCorrelations(set.correlations);
+    setAssumptionMessages([]);
+  };
+
+  const handleAssumptionsUpload = (e) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      let json;
+      try {
+        json = JSON.parse(text);
+      } catch (error) {
+        setAssumptionMessages([`${file.name} is not valid JSON: ${error.message}`]);
+        return;
+      }
+      const { assumptions: loaded, errors } = parseAssumptions(json);
+      setAssumptionMessages(errors);
+      if (loaded) {
+        addAssumptionSet(loaded);
+        setCorrelations(loaded.correlations);
+      }
+    });
+    e.target.value = '';
+  };
+
+  const handlePriceHistoryUpload = (e) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      const { rows, errors } = parsePricesCsv(text);
+      // Rows around a gap or a bad price are dropped, so the file is kept only to report them
+      setPriceHistory(rows.length > 0 ? { name: file.name, rows, blocked: errors.length > 0 } : null);
+      setAssumptionMessages(errors);
+    });
+    e.target.value = '';
+  };
 
-    // Normalize to 100%
-    const total = Object.values(optimized).reduce((sum, val) => sum + val, 0);
-    Object.keys(optimized).forEach(key => {
-      optimized[key] = Math.round((optimized[key] / total) * 100);
+  const estimateAssumptions = () => {
+    if (!priceHistory || priceHistory.blocked) return;
+    const { assumptions: derived, errors, warnings } = deriveAssumptions({
+      rows: priceHistory.rows,
+      tickersByClass,
+      base: baseAssumptions,
+      shrinkage: shrinkage / 100
     });
+    setAssumptionMessages([...errors, ...warnings]);
+    if (derived) {
+      addAssumptionSet(derived);
+      setCorrelations(derived.correlations);
+    }
+  };
 
-    return optimized;
-  }, [riskTolerance, expectedReturn]);
+  const updateCorrelation = (i, j, value) => {
+    setCorrelations(prev => prev.map((row, r) => row.map((cell, c) =>
+      (r === i && c === j) || (r === j && c === i) ? value : cell)));
+  };
 
-  // Calculate portfolio metrics
-  const calculateMetrics = (portfolio) => {
-    const weights = {
-      stocks: portfolio.stocks / 100,
-      bonds: portfolio.bonds / 100,
-      alternatives: portfolio.alternatives / 100,
-      cash: portfolio.cash / 100
-    };
+  const cashFlowSchedule = useMemo(() => buildCashFlowSchedule({
+    years: timeHorizon,
+    contribution: annualContribution,
+    withdrawal: withdrawalPlan,
+    goals: plannedGoals,
+    inflation: inflationRate / 100
+  }), [timeHorizon, annualContribution, withdrawalPlan, plannedGoals, inflationRate]);
+  const requiredReturn = requiredGrowthRate({ initialValue: investmentAmount, schedule: cashFlowSchedule });
+  const usePlanTarget = returnTargetSource === 'plan' && requiredReturn.status === 'ok';
 
-    const expectedReturns = { stocks: 0.10, bonds: 0.04, alternatives: 0.07, cash: 0.02 };
-    const risks = { stocks: 0.16, bonds: 0.04, alternatives: 0.12, cash: 0.01 };
+  // The slider re-solves the optimizer, so it only takes effect once it has been still for a moment
+  const [optimizerTarget, setOptimizerTarget] = useState(expectedReturn);
+  useEffect(() => {
+    const timer = setTimeout(() => setOptimizerTarget(expectedReturn), 250);
+    return () => clearTimeout(timer);
+  }, [expectedReturn]);
 
-    const portfolioReturn = Object.keys(weights).reduce((sum, asset) => 
-      sum + weights[asset] * expectedReturns[asset], 0);
-    
-    const portfolioRisk = Math.sqrt(Object.keys(weights).reduce((sum, asset) => 
-      sum + Math.pow(weights[asset] * risks[asset], 2), 0));
+  // Modern Portfolio Theory optimization; the frontier does not depend on the mode or target, so it is kept across them
+  const frontierInputs = {
+    assumptions,
+    weightBounds,
+    longOnly,
+    universe: universe === 'securities' ? securityUniverse : null,
+    funds: securityUniverse,
+    constraints
+  };
+  const frontier = useMemo(() => allocationFrontier(frontierInputs),
+    [universe, longOnly, weightBounds, baseAssumptions, activeCorrelations, customSecurities, constraints]);
+  const optimization = useMemo(() => optimizeAllocation({
+    ...frontierInputs,
+    profile: activeProfile,
+    mode: optimizationMode,
+    targetReturn: optimizerTarget / 100,
+    requiredRate: usePlanTarget ? requiredReturn.rate : null,
+    current: constraints.maxTurnover === null ? null : currentPortfolio,
+    frontier
+  }), [riskTolerance, riskAssessment, optimizerTarget, optimizationMode, universe, longOnly, weightBounds, baseAssumptions, activeCorrelations,
+    customSecurities, constraints, constraints.maxTurnover === null ? '' : ASSET_CLASSES.map(asset => currentPortfolio[asset]).join(),
+    usePlanTarget, requiredReturn.rate, frontier]);
 
-    const sharpeRatio = (portfolioReturn - 0.02) / portfolioRisk;
+  const optimizePortfolio = optimization.allocation;
 
-    return {
-      expectedReturn: portfolioReturn,
-      risk: portfolioRisk,
-      sharpeRatio: sharpeRatio
+  // Per-fund split: the one-stage optimizer already chose it in securities mode, otherwise a second stage splits each class
+  const securitySelection = useMemo(() => (universe === 'securities'
+    ? describeSecurityWeights(optimization.securityWeights, securityUniverse, assumptions)
+    : selectSecurities({
+      allocation: optimizePortfolio,
+      universe: excludeSecurities(securityUniverse, constraints),
+      assumptions,
+      profile: activeProfile,
+      policy: selectionPolicy,
+      bounds: constraints.securityBounds
+    })), [optimization, universe, selectionPolicy, constraints, riskTolerance, riskAssessment]);
+
+  const addCustomSecurity = () => {
+    const security = {
+      ...newSecurity,
+      symbol: newSecurity.symbol.trim().toUpperCase(),
+      name: newSecurity.name.trim() || newSecurity.symbol.trim().toUpperCase(),
+      category: newSecurity.category.trim(),
+      expectedReturn: newSecurity.expectedReturn / 100,
+      risk: newSecurity.risk / 100,
+      expenseRatio: newSecurity.expenseRatio / 100
     };
+    const errors = validateCustomSecurity(security, securityUniverse);
+    setNewSecurityErrors(errors);
+    if (errors.length > 0) return;
+    setCustomSecurities(prev => [...prev, security]);
+    setNewSecurity(prev => ({ ...prev, symbol: '', name: '' }));
+  };
+
+  const removeCustomSecurity = (symbol) => {
+    setCustomSecurities(prev => prev.filter(security => security.symbol !== symbol));
+  };
+
+  const updateSecurityBound = (symbol, side, value) => {
+    setConstraints(prev => {
+      const current = prev.securityBounds[symbol] || { min: 0, max: 100 };
+      const next = { ...current, [side]: value === '' ? (side === 'min' ? 0 : 100) : Math.max(0, Math.min(100, Number(value))) };
+      const securityBounds = { ...prev.securityBounds };
+      if (next.min === 0 && next.max === 100) delete securityBounds[symbol];
+      else securityBounds[symbol] = next;
+      return { ...prev, securityBounds };
+    });
   };
 
-  const currentMetrics = calculateMetrics(currentPortfolio);
-  const optimizedMetrics = calculateMetrics(optimizePortfolio);
+  const toggleExclusion = (field, value) => {
+    setConstraints(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value) ? prev[field].filter(item => item !== value) : [...prev[field], value]
+    }));
+  };
+
+  const fundCategories = ASSET_CLASSES.flatMap(asset => (asset === 'cash' ? [] : securityUniverse[asset].map(fund => fund.category)))
+    .filter((category, i, all) => all.indexOf(category) === i);
+
+  // Highest expected return on the frontier that stays within the profile's risk budget
+  const maxReturnWithinRisk = optimization.frontier
+    .filter(point => point.risk <= activeProfile.maxRisk * 100 + 1e-6)
+    .reduce((best, point) => Math.max(best, point.return), -Infinity);
+  const returnConflict = Number.isFinite(maxReturnWithinRisk) && expectedReturn > maxReturnWithinRisk + 0.05;
+
+  const submitQuestionnaire = () => {
+    const assessment = scoreRiskQuestionnaire(questionnaireAnswers, riskProfiles);
+    setRiskAssessment(assessment);
+    setRiskTolerance('scored');
+  };
+
+  // Calculate portfolio metrics
+  const currentMetrics = calculateMetrics(currentPortfolio, assumptions);
+  const optimizedMetrics = calculateMetrics(optimizePortfolio, assumptions);
 
   // Chart data
   const comparisonData = [
@@ -107,18 +594,376 @@ const PortfolioOptimizer = () => {
     { name: 'Optimized', ...optimizePortfolio, return: optimizedMetrics.expectedReturn * 100, risk: optimizedMetrics.risk * 100 }
   ];
 
-  const projectionData = Array.from({ length: timeHorizon + 1 }, (_, i) => {
-    const currentValue = investmentAmount * Math.pow(1 + currentMetrics.expectedReturn, i);
-    const optimizedValue = investmentAmount * Math.pow(1 + optimizedMetrics.expectedReturn, i);
+  // Current fund weights: the holdings when they are the source, otherwise each class split evenly across its funds
+  const currentSecurityWeights = portfolioSource === 'holdings'
+    ? holdings.flatMap(holding => {
+      const assetClass = classifyTicker(holding.ticker, tickersByClass);
+      const value = holding.shares * holding.price;
+      if (!assetClass || !Number.isFinite(value) || holdingsRollUp.totalValue === 0) return [];
+      return [{ id: assetClass === 'cash' ? 'cash' : holding.ticker, assetClass, weight: value / holdingsRollUp.totalValue }];
+    })
+    : Object.entries(toTickerWeights(currentPortfolio, tickersByClass, Object.values(tickersByClass).flat()).weights)
+      .map(([id, weight]) => ({ id, assetClass: id === 'cash' ? 'cash' : classifyTicker(id, tickersByClass), weight }));
+
+  // Fees: each portfolio's weighted fund expense ratio plus the advisory fee, projected gross and net
+  const expenseRatios = {
+    current: portfolioExpenseRatio(currentSecurityWeights, securityUniverse),
+    optimized: portfolioExpenseRatio(securitySelection.securityWeights, securityUniverse)
+  };
+  const feeProjections = {
+    current: projectNetOfFees({ initialValue: investmentAmount, growth: growthRate(currentMetrics), feeRate: expenseRatios.current + advisoryFee / 100, schedule: cashFlowSchedule }),
+    optimized: projectNetOfFees({ initialValue: investmentAmount, growth: growthRate(optimizedMetrics), feeRate: expenseRatios.optimized + advisoryFee / 100, schedule: cashFlowSchedule })
+  };
+  const currentPlan = feeProjections.current.gross;
+  const optimizedPlan = feeProjections.optimized.gross;
+
+  const benchmark = BENCHMARKS.find(item => item.id === benchmarkId) || BENCHMARKS[0];
+  const attribution = {
+    current: brinsonAttribution({ securityWeights: currentSecurityWeights, benchmark: benchmark.allocation, assumptions, universe: securityUniverse }),
+    optimized: brinsonAttribution({ securityWeights: securitySelection.securityWeights, benchmark: benchmark.allocation, assumptions, universe: securityUniverse })
+  };
+
+  // Real view deflates every figure back to today's dollars
+  const deflator = (year) => (dollarView === 'real' ? Math.pow(1 + inflationRate / 100, year) : 1);
+
+  const projectionData = Array.from({ length: timeHorizon + 1 }, (_, i) => ({
+    year: i,
+    current: Math.round(currentPlan.values[i] / deflator(i)),
+    optimized: Math.round(optimizedPlan.values[i] / deflator(i)),
+    currentNet: Math.round(feeProjections.current.net.values[i] / deflator(i)),
+    optimizedNet: Math.round(feeProjections.optimized.net.values[i] / deflator(i))
+  }));
+
+  // Fees paid over the horizon and the ending value they cost, in the selected dollar view
+  const feeTotals = (projection) => ({
+    paid: projection.annualFees.reduce((sum, fee, year) => sum + fee / deflator(year), 0),
+    cost: projection.cost / deflator(timeHorizon)
+  });
+
+  const simulations = useMemo(() => {
+    const simulate = (metrics) => runMonteCarlo({
+      initialValue: investmentAmount,
+      expectedReturn: metrics.expectedReturn,
+      risk: metrics.risk,
+      years: timeHorizon,
+      goal: goalAmount * deflator(timeHorizon),
+      netFlows: netCashFlows(cashFlowSchedule),
+      seed: simulationSeed
+    });
+    return { current: simulate(currentMetrics), optimized: simulate(optimizedMetrics) };
+  }, [investmentAmount, timeHorizon, goalAmount, simulationSeed, cashFlowSchedule, dollarView,
+    currentMetrics.expectedReturn, currentMetrics.risk, optimizedMetrics.expectedReturn, optimizedMetrics.risk]);
+
+  const fanChartData = simulations[fanPortfolio].bands.map((band, i) => ({
+    year: band.year,
+    outer: [band.p5 / deflator(i), band.p95 / deflator(i)],
+    inner: [band.p25 / deflator(i), band.p75 / deflator(i)],
+    median: band.p50 / deflator(i),
+    expected: projectionData[i][fanPortfolio],
+    net: projectionData[i][`${fanPortfolio}Net`]
+  }));
+
+  // Trade list against the holdings when they are the source, otherwise against investmentAmount
+  const tradeList = useMemo(() => {
+    const allTickers = Object.values(tickersByClass).flat();
+    const { weights: targetWeights } = toTickerWeights(optimizePortfolio, tickersByClass, allTickers, securitySelection.securityWeights);
+    const prices = Object.fromEntries(Object.values(assetData).flat().map(asset => [asset.symbol, asset.price]));
+    let currentValues;
+    let totalValue;
+
+    if (portfolioSource === 'holdings') {
+      currentValues = { cash: 0 };
+      holdings.forEach(holding => {
+        const assetClass = classifyTicker(holding.ticker, tickersByClass);
+        const value = holding.shares * holding.price;
+        if (!assetClass || !Number.isFinite(value)) return;
+        const key = assetClass === 'cash' ? 'cash' : holding.ticker;
+        currentValues[key] = (currentValues[key] || 0) + value;
+        if (assetClass !== 'cash' && holding.price > 0) prices[holding.ticker] = holding.price;
+      });
+      totalValue = holdingsRollUp.totalValue;
+    } else {
+      const { weights } = toTickerWeights(currentPortfolio, tickersByClass, allTickers);
+      currentValues = Object.fromEntries(Object.entries(weights).map(([id, weight]) => [id, weight * investmentAmount]));
+      totalValue = investmentAmount;
+    }
+
+    Object.keys(priceOverrides).forEach(symbol => {
+      if (priceOverrides[symbol] > 0) prices[symbol] = priceOverrides[symbol];
+    });
+
+    return {
+      ...buildTradeList({
+        targetWeights,
+        currentValues,
+        prices,
+        classOf: symbol => classifyTicker(symbol, tickersByClass),
+        totalValue,
+        minTradeSize,
+        wholeShares,
+        cashBuffer: cashBuffer / 100
+      }),
+      prices,
+      totalValue
+    };
+  }, [optimization, securitySelection, portfolioSource, holdings, currentPortfolio, investmentAmount, priceOverrides, minTradeSize, wholeShares, cashBuffer]);
+
+  const returnHistory = uploadedHistory || bundledReturns.returns;
+  const historyTickers = returnHistory.length > 0 ? Object.keys(returnHistory[0]).filter(key => key !== 'month') : [];
+
+  const backtests = useMemo(() => {
+    if (returnHistory.length === 0) return null;
+    const run = (allocation, securityWeights) => {
+      const { weights, unmapped } = toTickerWeights(allocation, tickersByClass, historyTickers, securityWeights);
+      return {
+        ...runBacktest({ rows: returnHistory, weights, rebalanceFreq, initialValue: tradeList.totalValue, cashReturn: classReturns.cash, riskFreeRate: assumptions.riskFreeRate }),
+        unmapped
+      };
+    };
+    return { current: run(currentPortfolio, []), optimized: run(optimizePortfolio, securitySelection.securityWeights) };
+  }, [returnHistory, rebalanceFreq, tradeList.totalValue, currentPortfolio, optimization, securitySelection, baseAssumptions]);
+
+  // Risk tab: one-month tail risk, drawdowns, risk budgets and stress tests for both portfolios
+  const riskAnalytics = useMemo(() => {
+    const analyse = (allocation, metrics, backtest) => ({
+      parametric: VAR_CONFIDENCE_LEVELS.map(confidence => parametricTailRisk({
+        expectedReturn: metrics.expectedReturn,
+        risk: metrics.risk,
+        confidence,
+        horizonYears: 1 / 12
+      })),
+      historical: backtest ? VAR_CONFIDENCE_LEVELS.map(confidence => historicalTailRisk(backtest.monthlyReturns, confidence)) : null,
+      expectedDrawdown: expectedMaxDrawdown({ expectedReturn: metrics.expectedReturn, risk: metrics.risk, years: timeHorizon, seed: simulationSeed }),
+      historicalDrawdown: backtest ? backtest.maxDrawdown : null,
+      contributions: riskContributions(allocation, classCovariance),
+      stress: STRESS_SCENARIOS.map(scenario => applyStressScenario(allocation, scenario))
+    });
     return {
-      year: i,
-      current: Math.round(currentValue),
-      optimized: Math.round(optimizedValue)
+      current: analyse(currentPortfolio, currentMetrics, backtests?.current),
+      optimized: analyse(optimizePortfolio, optimizedMetrics, backtests?.optimized)
     };
+  }, [currentPortfolio, optimizePortfolio, baseAssumptions, activeCorrelations, backtests, timeHorizon, simulationSeed]);
+
+  const handleHistoryUpload = (e) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      const { rows, errors } = parseReturnsCsv(text);
+      // Gaps, duplicate months or bad rows would distort the replay, so such a file is not loaded at all
+      setHistoryErrors(errors.length > 0 ? [`${file.name} was not loaded; fix these problems and load it again`, ...errors] : []);
+      if (errors.length === 0 && rows.length > 0) setUploadedHistory(rows);
+    });
+    e.target.value = '';
+  };
+
+  const rebalanceSchedule = useMemo(() => simulateRebalancing({
+    targets: ASSET_CLASSES.map(asset => optimizePortfolio[asset] / 100),
+    mu: ASSET_CLASSES.map(asset => classReturns[asset]),
+    cov: classCovariance,
+    policy: {
+      ...rebalancePolicy,
+      absoluteBand: rebalancePolicy.absoluteBand / 100,
+      relativeBand: rebalancePolicy.relativeBand / 100
+    },
+    rebalanceFreq,
+    years: timeHorizon,
+    seed: simulationSeed
+  }), [optimizePortfolio, baseAssumptions, activeCorrelations, rebalancePolicy, rebalanceFreq, timeHorizon, simulationSeed]);
+
+  // One-way turnover of moving from the current to the optimized allocation today
+  const initialTurnover = ASSET_CLASSES.reduce((sum, asset) => sum + Math.abs(optimizePortfolio[asset] - currentPortfolio[asset]), 0) / 200;
+
+  // Household target placed across the accounts by asset location, with each account's own trades
+  const householdPlan = useMemo(() => {
+    if (portfolioSource !== 'holdings' || accounts.length === 0) return null;
+    const placement = placeHouseholdAllocation({
+      securityWeights: securitySelection.securityWeights,
+      accounts,
+      holdings,
+      universe: securityUniverse,
+      tickersByClass
+    });
+    return {
+      ...placement,
+      trades: planAccountTrades(placement, {
+        prices: tradeList.prices,
+        classOf: symbol => classifyTicker(symbol, tickersByClass),
+        minTradeSize,
+        wholeShares,
+        cashBuffer: cashBuffer / 100
+      })
+    };
+  }, [securitySelection, tradeList, portfolioSource, holdings, accountSettings, minTradeSize, wholeShares, cashBuffer]);
+
+  // Trades to act on: with a household, each account's own, so the trade list, its CSV, the report
+  // and the tax plan all agree with the actions by account
+  const executionTrades = useMemo(() => (householdPlan
+    ? {
+      trades: householdPlan.trades.flatMap(list => list.trades.map(trade => ({ ...trade, account: list.account.name }))),
+      skipped: householdPlan.trades.flatMap(list => list.skipped.map(item => ({ ...item, account: list.account.name }))),
+      cashAfter: householdPlan.trades.reduce((sum, list) => sum + list.cashAfter, 0)
+    }
+    : tradeList), [householdPlan, tradeList]);
+
+  // Lots and gains for the per-account trades, so the estimate matches the actions shown by account
+  const taxPlan = useMemo(() => {
+    if (!householdPlan || holdings.length === 0) return null;
+    const securities = Object.values(assetData).flat();
+    return planTaxAwareTrades({
+      trades: executionTrades.trades,
+      holdings,
+      accountTypes: accountTypesOf(accounts),
+      classOf: ticker => classifyTicker(ticker, tickersByClass),
+      taxEfficiencyOf: symbol => securities.find(asset => asset.symbol === symbol)?.taxEfficiency || 'efficient',
+      wholeShares,
+      rates: { shortTerm: taxRates.shortTerm / 100, longTerm: taxRates.longTerm / 100 },
+      asOf: new Date()
+    });
+  }, [householdPlan, executionTrades, holdings, accountSettings, wholeShares, taxRates]);
+
+  // Every input a scenario captures, with the setter that restores it
+  const scenarioInputs = {
+    riskTolerance: [riskTolerance, setRiskTolerance],
+    riskAssessment: [riskAssessment, setRiskAssessment],
+    expectedReturn: [expectedReturn, setExpectedReturn],
+    timeHorizon: [timeHorizon, setTimeHorizon],
+    portfolioSource: [portfolioSource, setPortfolioSource],
+    manualPortfolio: [manualPortfolio, setManualPortfolio],
+    holdings: [holdings, setHoldings],
+    accountSettings: [accountSettings, setAccountSettings],
+    investmentAmount: [investmentAmount, setInvestmentAmount],
+    advisoryFee: [advisoryFee, setAdvisoryFee],
+    rebalanceFreq: [rebalanceFreq, setRebalanceFreq],
+    rebalancePolicy: [rebalancePolicy, setRebalancePolicy],
+    optimizationMode: [optimizationMode, setOptimizationMode],
+    universe: [universe, setUniverse],
+    longOnly: [longOnly, setLongOnly],
+    selectionPolicy: [selectionPolicy, setSelectionPolicy],
+    customSecurities: [customSecurities, setCustomSecurities],
+    weightBounds: [weightBounds, setWeightBounds],
+    constraints: [constraints, setConstraints],
+    assumptionSet: [baseAssumptions, addAssumptionSet],
+    correlations: [correlations, setCorrelations],
+    annualContribution: [annualContribution, setAnnualContribution],
+    withdrawalPlan: [withdrawalPlan, setWithdrawalPlan],
+    plannedGoals: [plannedGoals, setPlannedGoals],
+    inflationRate: [inflationRate, setInflationRate],
+    returnTargetSource: [returnTargetSource, setReturnTargetSource],
+    benchmarkId: [benchmarkId, setBenchmarkId],
+    goalAmount: [goalAmount, setGoalAmount],
+    simulationSeed: [simulationSeed, setSimulationSeed]
+  };
+
+  const storage = useMemo(() => (storageKind === 'file' ? createJsonFileAdapter() : createKeyValueStore(window.localStorage)), [storageKind]);
+
+  useEffect(() => {
+    if (storageKind !== 'local') return;
+    storage.load()
+      .then(setScenarios)
+      .catch(error => setScenarioStatus(`Could not read saved scenarios: ${error.message}`));
+  }, [storage]);
+
+  const persistScenarios = (next) => storage.save(next)
+    .then(() => {
+      setScenarios(next);
+      setScenarioStatus(`Saved to ${storage.name.toLowerCase()}`);
+    })
+    .catch(error => setScenarioStatus(`Could not save: ${error.message}`));
+
+  const saveScenario = () => {
+    const name = scenarioName.trim();
+    if (!name) return;
+    persistScenarios(addScenarioVersion(scenarios, name, {
+      inputs: Object.fromEntries(Object.entries(scenarioInputs).map(([key, [value]]) => [key, value])),
+      currentAllocation: currentPortfolio,
+      allocation: optimizePortfolio,
+      metrics: { current: currentMetrics, optimized: optimizedMetrics },
+      projection: projectionData.map(point => ({ year: point.year, value: point.optimized }))
+    }));
+  };
+
+  const loadScenarioFile = () => storage.load()
+    .then(loaded => {
+      setScenarios(loaded);
+      setScenarioStatus(`Loaded ${loaded.length} scenario${loaded.length === 1 ? '' : 's'} from ${storage.name.toLowerCase()}`);
+    })
+    .catch(error => setScenarioStatus(`Could not load: ${error.message}`));
+
+  const restoreScenario = (scenario, version) => {
+    Object.entries(version.inputs).forEach(([key, value]) => scenarioInputs[key]?.[1](value));
+    // Keep generated ids unique after restoring saved rows
+    reserveHoldingIds(version.inputs.holdings || []);
+    nextGoalId = Math.max(nextGoalId, ...(version.inputs.plannedGoals || []).map(goal => goal.id + 1));
+    setScenarioName(scenario.name);
+    setScenarioStatus(`Restored ${scenario.name} v${version.version}`);
+  };
+
+  const toggleCompared = (scenario, version) => {
+    const key = `${scenario.id}@${version.version}`;
+    setComparedVersions(prev => (prev.includes(key)
+      ? prev.filter(item => item !== key)
+      : prev.length < MAX_COMPARED_SCENARIOS ? [...prev, key] : prev));
+  };
+
+  const comparison = comparedVersions.flatMap(key => {
+    const [id, versionNumber] = key.split('@');
+    const scenario = scenarios.find(item => item.id === id);
+    const version = scenario?.versions.find(item => item.version === Number(versionNumber));
+    return version ? [{ key, label: `${scenario.name} v${version.version}`, ...version }] : [];
   });
 
+  const formatDollars = (value) => `$${Math.round(value).toLocaleString()}`;
+
   const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300'];
 
+  const constraintSummary = [
+    constraints.excludedCategories.length + constraints.excludedTickers.length > 0
+      && `Excludes ${[...constraints.excludedCategories, ...constraints.excludedTickers].join(', ')}`,
+    constraints.cashFloor > 0 && `At least ${constraints.cashFloor}% cash`,
+    constraints.maxTurnover !== null && `Turnover up to ${constraints.maxTurnover}%`,
+    ...Object.keys(constraints.securityBounds).map(symbol => `${symbol} ${constraints.securityBounds[symbol].min}–${constraints.securityBounds[symbol].max}%`)
+  ].filter(Boolean);
+
+  const buildReport = () => buildProposalHtml({
+    settings: reportSettings,
+    inputs: [
+      ['Risk profile', riskTolerance === 'scored' && riskAssessment ? `${riskAssessment.profile.name} (questionnaire score ${riskAssessment.score})` : riskTolerance],
+      ['Target return', usePlanTarget ? `${(requiredReturn.rate * 100).toFixed(1)}% (required by cash-flow plan)` : `${expectedReturn}%`],
+      ['Investment amount', formatDollars(investmentAmount)],
+      ['Time horizon', `${timeHorizon} years`],
+      ['Advisory fee', `${advisoryFee}% per year`],
+      ['Capital market assumptions', assumptionsLabel],
+      ...(constraintSummary.length > 0 ? [['Restrictions', constraintSummary.join('; ')]] : []),
+      ['Rebalancing', rebalancePolicy.mode === 'threshold' ? `Drift bands (±${rebalancePolicy.absoluteBand}% / ${rebalancePolicy.relativeBand}% relative)` : `${rebalancePolicy.mode === 'hybrid' ? 'Hybrid, checked ' : ''}${rebalanceFreq}`]
+    ],
+    current: { allocation: currentPortfolio, metrics: currentMetrics, fees: { rate: expenseRatios.current + advisoryFee / 100, ...feeTotals(feeProjections.current) } },
+    optimized: { allocation: optimizePortfolio, metrics: optimizedMetrics, fees: { rate: expenseRatios.optimized + advisoryFee / 100, ...feeTotals(feeProjections.optimized) } },
+    projection: projectionData,
+    outcomes: [['Current', 'current'], ['Proposed', 'optimized']].map(([label, key]) => {
+      const band = simulations[key].bands[timeHorizon];
+      const deflate = (value) => value / deflator(timeHorizon);
+      return { label, expected: projectionData[timeHorizon][key], p5: deflate(band.p5), p50: deflate(band.p50), p95: deflate(band.p95) };
+    }),
+    dollarView,
+    actions: ASSET_CLASSES.map(asset => {
+      const difference = optimizePortfolio[asset] - currentPortfolio[asset];
+      const verb = difference > 0 ? 'Increase' : difference < 0 ? 'Decrease' : 'Maintain';
+      return { asset, current: currentPortfolio[asset], optimized: optimizePortfolio[asset], difference, label: `${verb} ${Math.abs(difference).toFixed(1)}%` };
+    }),
+    trades: executionTrades.trades,
+    funds: securitySelection.holdings,
+    colors: COLORS
+  });
+
+  const printReport = () => {
+    const reportWindow = window.open('', '_blank');
+    if (!reportWindow) return;
+    reportWindow.document.write(buildReport());
+    reportWindow.document.close();
+    reportWindow.focus();
+    reportWindow.print();
+  };
+
   const PieChartComponent = ({ data, title }) => {
     const chartData = Object.entries(data).map(([key, value]) => ({
       name: key.charAt(0).toUpperCase() + key.slice(1),
@@ -213,6 +1058,9 @@ const PortfolioOptimizer = () => {
           {[
             { id: 'input', label: 'Portfolio Input', icon: Calculator },
             { id: 'analysis', label: 'Analysis', icon: TrendingUp },
+            { id: 'risk', label: 'Risk', icon: Activity },
+            { id: 'backtest', label: 'Backtest', icon: History },
+            { id: 'scenarios', label: 'Scenarios', icon: Save },
             { id: 'recommendations', label: 'Recommendations', icon: CheckCircle }
           ].map(tab => (
             <button
@@ -248,7 +1096,16 @@ const PortfolioOptimizer = () => {
                     <option value="low">Conservative (Low Risk)</option>
                     <option value="medium">Moderate (Medium Risk)</option>
                     <option value="high">Aggressive (High Risk)</option>
+                    <option value="scored" disabled={!riskAssessment}>
+                      {riskAssessment ? `Questionnaire: ${riskAssessment.profile.name} (score ${riskAssessment.score})` : 'Questionnaire (not completed)'}
+                    </option>
                   </select>
+                  <button
+                    onClick={() => setShowQuestionnaire(!showQuestionnaire)}
+                    className="mt-2 text-sm text-blue-600 hover:underline"
+                  >
+                    {showQuestionnaire ? 'Hide risk questionnaire' : riskAssessment ? 'Retake risk questionnaire' : 'Take risk questionnaire'}
+                  </button>
                 </div>
 
                 <div>
@@ -262,6 +1119,12 @@ const PortfolioOptimizer = () => {
                     className="w-full"
                   />
                   <div className="text-center mt-1 font-medium">{expectedReturn}%</div>
+                  {returnConflict && (
+                    <div className="mt-2 flex items-center gap-2 text-sm text-orange-600">
+                      <AlertTriangle className="w-4 h-4" />
+                      {expectedReturn}% exceeds the {maxReturnWithinRisk.toFixed(1)}% achievable within the {activeProfile.name || riskTolerance} profile's {(activeProfile.maxRisk * 100).toFixed(0)}% risk limit
+                    </div>
+                  )}
                 </div>
 
                 <div>
@@ -289,23 +1152,136 @@ const PortfolioOptimizer = () => {
                   />
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                  {Object.entries(currentPortfolio).map(([asset, value]) => (
-                    <div key={asset}>
-                      <label className="block text-sm font-medium mb-2 capitalize">{asset} (%)</label>
-                      <input
-                        type="number"
-                        value={value}
-                        onChange={(e) => setCurrentPortfolio(prev => ({
-                          ...prev,
-                          [asset]: Math.max(0, Math.min(100, Number(e.target.value)))
-                        }))}
-                        className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
-                        min="0"
-                        max="100"
-                      />
+                <div>
+                  <label className="block text-sm font-medium mb-2">Advisory Fee (% per year)</label>
+                  <input
+                    type="number"
+                    value={advisoryFee}
+                    onChange={(e) => setAdvisoryFee(Math.max(0, Math.min(10, Number(e.target.value))))}
+                    className={`w-full p-3 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    min="0"
+                    max="10"
+                    step="0.05"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Charged on the whole portfolio, on top of each fund's expense ratio</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">Rebalancing Policy</label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <select
+                      value={rebalancePolicy.mode}
+                      onChange={(e) => setRebalancePolicy(prev => ({ ...prev, mode: e.target.value }))}
+                      className={`w-full p-3 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                      aria-label="Rebalancing policy"
+                    >
+                      <option value="calendar">Calendar</option>
+                      <option value="threshold">Threshold (drift bands)</option>
+                      <option value="hybrid">Hybrid (calendar check, bands)</option>
+                    </select>
+                    <select
+                      value={rebalanceFreq}
+                      onChange={(e) => setRebalanceFreq(e.target.value)}
+                      disabled={rebalancePolicy.mode === 'threshold'}
+                      className={`w-full p-3 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'} disabled:opacity-50`}
+                      aria-label="Rebalancing frequency"
+                    >
+                      <option value="monthly">Monthly</option>
+                      <option value="quarterly">Quarterly</option>
+                      <option value="annually">Annually</option>
+                      <option value="never">Never (buy and hold)</option>
+                    </select>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4 mt-4">
+                    {[
+                      { key: 'absoluteBand', label: 'Absolute Band (±%)', disabled: rebalancePolicy.mode === 'calendar' },
+                      { key: 'relativeBand', label: 'Relative Band (%)', disabled: rebalancePolicy.mode === 'calendar' },
+                      { key: 'costBps', label: 'Trading Cost (bps)', disabled: false }
+                    ].map(({ key, label, disabled }) => (
+                      <div key={key}>
+                        <label className="block text-xs font-medium mb-1">{label}</label>
+                        <input
+                          type="number"
+                          value={rebalancePolicy[key]}
+                          onChange={(e) => setRebalancePolicy(prev => ({ ...prev, [key]: Math.max(0, Number(e.target.value)) }))}
+                          disabled={disabled}
+                          className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'} disabled:opacity-50`}
+                          min="0"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">Current Portfolio</label>
+                  <div className="flex gap-2 mb-4">
+                    {[
+                      { id: 'percentages', label: 'Percentages' },
+                      { id: 'holdings', label: 'Holdings' }
+                    ].map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => setPortfolioSource(option.id)}
+                        className={`px-3 py-1 rounded-lg text-sm ${portfolioSource === option.id
+                          ? 'bg-blue-500 text-white'
+                          : darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {portfolioSource === 'percentages' ? (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        {Object.entries(manualPortfolio).map(([asset, value]) => (
+                          <div key={asset}>
+                            <label className="block text-sm font-medium mb-2 capitalize">{asset} (%)</label>
+                            <input
+                              type="number"
+                              value={value}
+                              onChange={(e) => setManualPortfolio(prev => ({
+                                ...prev,
+                                [asset]: Math.max(0, Math.min(100, Number(e.target.value)))
+                              }))}
+                              className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                              min="0"
+                              max="100"
+                            />
+                          </div>
+                        ))}
+                      </div>
+
+                      {manualTotal !== 100 && (
+                        <div className="mt-4 flex items-center justify-between gap-2 text-sm text-orange-600">
+                          <div className="flex items-center gap-2">
+                            <AlertTriangle className="w-4 h-4" />
+                            {manualTotal > 0
+                              ? `Weights sum to ${manualTotal}%; the analysis scales them to 100%.`
+                              : 'Enter at least one non-zero weight.'}
+                          </div>
+                          {manualTotal > 0 && (
+                            <button
+                              onClick={() => setManualPortfolio(normalizeManual())}
+                              className="px-3 py-1 rounded-lg bg-orange-100 text-orange-700 hover:bg-orange-200 transition-colors"
+                            >
+                              Normalize
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <div className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">Rolled up from {holdings.length} holding{holdings.length === 1 ? '' : 's'}</div>
+                      <div className="text-xl font-bold">{formatDollars(holdingsRollUp.totalValue)}</div>
+                      <div className="text-sm mt-1">
+                        {ASSET_CLASSES.map(asset => `${asset.charAt(0).toUpperCase() + asset.slice(1)} ${currentPortfolio[asset]}%`).join(' · ')}
+                      </div>
                     </div>
-                  ))}
+                  )}
                 </div>
               </div>
             </div>
@@ -325,115 +1301,1821 @@ const PortfolioOptimizer = () => {
                   <div className="text-xl font-bold text-orange-600">{(currentMetrics.risk * 100).toFixed(1)}%</div>
                 </div>
               </div>
+              <p className="mt-3 text-xs text-gray-500">Based on {currentMetrics.assumptionSet}</p>
             </div>
-          </div>
-        )}
-
-        {activeTab === 'analysis' && (
-          <div className="grid lg:grid-cols-2 gap-8">
-            {/* Portfolio Comparison */}
-            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
-              <h2 className="text-xl font-semibold mb-6">Portfolio Comparison</h2>
-              
-              <div className="grid grid-cols-2 gap-4 mb-6">
-                <PieChartComponent data={currentPortfolio} title="Current" />
-                <PieChartComponent data={optimizePortfolio} title="Optimized" />
-              </div>
 
-              <div className="space-y-4">
-                <div className="flex justify-between items-center p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
-                  <span>Expected Return</span>
-                  <div className="flex gap-4">
-                    <span className="text-gray-600">{(currentMetrics.expectedReturn * 100).toFixed(1)}%</span>
-                    <span className="text-green-600 font-bold">→ {(optimizedMetrics.expectedReturn * 100).toFixed(1)}%</span>
-                  </div>
+            {/* Risk Questionnaire */}
+            {showQuestionnaire && (
+              <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+                <div className="flex items-center gap-2 mb-6">
+                  <Shield className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-xl font-semibold">Risk Questionnaire</h2>
                 </div>
-                
-                <div className="flex justify-between items-center p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
-                  <span>Risk Level</span>
-                  <div className="flex gap-4">
-                    <span className="text-gray-600">{(currentMetrics.risk * 100).toFixed(1)}%</span>
-                    <span className="text-blue-600 font-bold">→ {(optimizedMetrics.risk * 100).toFixed(1)}%</span>
-                  </div>
+
+                <div className="space-y-6">
+                  {RISK_QUESTIONS.map((question, n) => (
+                    <div key={question.id}>
+                      <div className="font-medium mb-1">{n + 1}. {question.text}</div>
+                      <div className="text-xs text-gray-500 mb-2">{RISK_DIMENSIONS[question.dimension].label}</div>
+                      <div className="grid md:grid-cols-5 gap-2">
+                        {question.options.map((option, points) => (
+                          <label
+                            key={option}
+                            className={`p-2 rounded-lg border text-sm cursor-pointer ${questionnaireAnswers[question.id] === points
+                              ? 'border-blue-500 bg-blue-50 text-blue-700'
+                              : darkMode ? 'border-gray-600' : 'border-gray-200'}`}
+                          >
+                            <input
+                              type="radio"
+                              name={question.id}
+                              checked={questionnaireAnswers[question.id] === points}
+                              onChange={() => setQuestionnaireAnswers(prev => ({ ...prev, [question.id]: points }))}
+                              className="mr-2"
+                            />
+                            {option}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
                 </div>
-                
-                <div className="flex justify-between items-center p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
-                  <span>Sharpe Ratio</span>
-                  <div className="flex gap-4">
-                    <span className="text-gray-600">{currentMetrics.sharpeRatio.toFixed(2)}</span>
-                    <span className="text-purple-600 font-bold">→ {optimizedMetrics.sharpeRatio.toFixed(2)}</span>
-                  </div>
+
+                <div className="mt-6 flex items-center gap-4">
+                  <button
+                    onClick={submitQuestionnaire}
+                    disabled={RISK_QUESTIONS.some(question => questionnaireAnswers[question.id] === undefined)}
+                    className={`px-4 py-2 rounded-lg ${darkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white transition-colors disabled:opacity-50`}
+                  >
+                    Score Questionnaire
+                  </button>
+                  {riskAssessment && (
+                    <button
+                      onClick={() => downloadFile(`risk-assessment-${riskAssessment.completedAt.slice(0, 10)}.json`, JSON.stringify(riskAssessment, null, 2), 'application/json')}
+                      className="px-4 py-2 rounded-lg text-sm flex items-center gap-2 text-blue-600 hover:underline"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download Record
+                    </button>
+                  )}
                 </div>
-              </div>
-            </div>
 
-            {/* Growth Projection */}
-            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
-              <h2 className="text-xl font-semibold mb-6">Growth Projection</h2>
-              
-              <div className="h-64 mb-4">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={projectionData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="year" />
-                    <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
-                    <Tooltip formatter={(value) => [`$${value.toLocaleString()}`, '']} />
-                    <Legend />
-                    <Line type="monotone" dataKey="current" stroke="#8884d8" name="Current Portfolio" strokeWidth={2} />
-                    <Line type="monotone" dataKey="optimized" stroke="#82ca9d" name="Optimized Portfolio" strokeWidth={2} />
-                  </LineChart>
-                </ResponsiveContainer>
+                {riskAssessment && (
+                  <div className={`mt-6 p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                    <div className="flex justify-between items-center mb-2">
+                      <div className="text-xl font-bold">{riskAssessment.profile.name}</div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">Score {riskAssessment.score}/100 · {new Date(riskAssessment.completedAt).toLocaleString()}</div>
+                    </div>
+                    <ul className="text-sm space-y-1 list-disc list-inside">
+                      {riskAssessment.rationale.map(line => <li key={line}>{line}</li>)}
+                    </ul>
+                    {returnConflict && riskTolerance === 'scored' && (
+                      <div className="mt-3 flex items-center gap-2 text-sm text-orange-600">
+                        <AlertTriangle className="w-4 h-4" />
+                        The {expectedReturn}% expected return target is above what this profile's risk capacity supports ({maxReturnWithinRisk.toFixed(1)}%).
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
+            )}
 
-              <div className="grid grid-cols-2 gap-4">
-                <div className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
-                  <div className="text-sm text-gray-600 dark:text-gray-400">Current Portfolio</div>
-                  <div className="text-xl font-bold">${projectionData[projectionData.length - 1]?.current.toLocaleString()}</div>
+            {/* Holdings */}
+            {portfolioSource === 'holdings' && (
+              <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="text-xl font-semibold">Holdings</h2>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setHoldings(prev => [...prev, createHolding()])}
+                      className={`px-4 py-2 rounded-lg text-sm ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}
+                    >
+                      Add Position
+                    </button>
+                    <label className={`px-4 py-2 rounded-lg text-sm flex items-center gap-2 cursor-pointer ${darkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white transition-colors`}>
+                      <Upload className="w-4 h-4" />
+                      Import Positions CSV
+                      <input type="file" accept=".csv,text/csv" onChange={handleHoldingsUpload} className="hidden" />
+                    </label>
+                  </div>
                 </div>
-                <div className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
-                  <div className="text-sm text-gray-600 dark:text-gray-400">Optimized Portfolio</div>
-                  <div className="text-xl font-bold text-green-600">${projectionData[projectionData.length - 1]?.optimized.toLocaleString()}</div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left">
+                        {['Ticker', 'Shares', 'Price ($)', 'Cost Basis ($)', 'Purchased', 'Account', 'Value', 'Class', ''].map(heading => (
+                          <th key={heading} className="p-2 font-medium">{heading}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {holdings.map(holding => {
+                        const assetClass = classifyTicker(holding.ticker, tickersByClass);
+                        return (
+                          <tr key={holding.id}>
+                            <td className="p-2">
+                              <input
+                                value={holding.ticker}
+                                onChange={(e) => updateHolding(holding.id, 'ticker', e.target.value.toUpperCase())}
+                                className={`w-24 p-1 rounded border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                              />
+                            </td>
+                            {['shares', 'price', 'costBasis'].map(field => (
+                              <td key={field} className="p-2">
+                                <input
+                                  type="number"
+                                  value={holding[field]}
+                                  onChange={(e) => updateHolding(holding.id, field, Math.max(0, Number(e.target.value)))}
+                                  className={`w-28 p-1 rounded border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                                  min="0"
+                                />
+                              </td>
+                            ))}
+                            <td className="p-2">
+                              <input
+                                type="date"
+                                value={holding.purchaseDate}
+                                onChange={(e) => updateHolding(holding.id, 'purchaseDate', e.target.value)}
+                                className={`p-1 rounded border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                              />
+                            </td>
+                            <td className="p-2">
+                              <input
+                                value={holding.account}
+                                onChange={(e) => updateHolding(holding.id, 'account', e.target.value)}
+                                className={`w-32 p-1 rounded border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                              />
+                            </td>
+                            <td className="p-2">{formatDollars(holding.shares * holding.price)}</td>
+                            <td className={`p-2 capitalize ${assetClass ? '' : 'text-red-600'}`}>{assetClass || 'Unknown'}</td>
+                            <td className="p-2">
+                              <button
+                                onClick={() => setHoldings(prev => prev.filter(h => h.id !== holding.id))}
+                                className="text-red-600 hover:underline"
+                              >
+                                Remove
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
                 </div>
-              </div>
-            </div>
-          </div>
-        )}
 
-        {activeTab === 'recommendations' && (
-          <div className="space-y-8">
-            {/* Asset Recommendations */}
-            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
-              <h2 className="text-xl font-semibold mb-6">Recommended Assets</h2>
-              
-              <div className="grid md:grid-cols-3 gap-6">
-                {Object.entries(assetData).map(([category, assets]) => (
-                  <div key={category}>
-                    <h3 className="text-lg font-medium mb-4 capitalize">{category}</h3>
-                    <div className="space-y-3">
-                      {assets.map(asset => (
-                        <div key={asset.symbol} className={`p-4 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
-                          <div className="flex justify-between items-start mb-2">
+                {holdings.length === 0 && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-4">
+                    Add positions by hand or import a brokerage positions export with Symbol and Quantity columns (Last Price, Cost Basis, Date Acquired and Account are optional).
+                    Each row is one tax lot.
+                  </p>
+                )}
+
+                {accounts.length > 0 && (
+                  <div className="mt-6">
+                    <h3 className="text-lg font-medium mb-4">Accounts</h3>
+                    <div className="grid md:grid-cols-2 gap-4">
+                      {accounts.map(account => (
+                        <div key={account.name} className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                          <div className="font-medium mb-3">{account.name || 'Unnamed account'}</div>
+                          <div className="grid grid-cols-2 gap-3">
                             <div>
-                              <div className="font-medium">{asset.symbol}</div>
-                              <div className="text-sm text-gray-600 dark:text-gray-400">{asset.name}</div>
+                              <label className="block text-sm font-medium mb-1">Owner</label>
+                              <input
+                                value={account.owner}
+                                onChange={(e) => updateAccount(account.name, 'owner', e.target.value)}
+                                placeholder="e.g. Spouse"
+                                className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                              />
                             </div>
-                            <div className="text-right">
-                              <div className="text-sm text-green-600">{(asset.expectedReturn * 100).toFixed(1)}%</div>
-                              <div className="text-xs text-gray-500">Expected Return</div>
+                            <div>
+                              <label className="block text-sm font-medium mb-1">Tax Treatment</label>
+                              <select
+                                value={account.type}
+                                onChange={(e) => updateAccount(account.name, 'type', e.target.value)}
+                                className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                              >
+                                {ACCOUNT_TYPES.map(type => (
+                                  <option key={type.id} value={type.id}>{type.label}</option>
+                                ))}
+                              </select>
                             </div>
                           </div>
-                          <div className="flex justify-between text-sm">
-                            <span>Risk: {(asset.risk * 100).toFixed(1)}%</span>
-                            <span className="text-blue-600">{asset.category}</span>
+                          <div className="text-sm font-medium mt-3 mb-1">Cannot hold</div>
+                          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                            {fundCategories.map(category => (
+                              <label key={category} className="flex items-center gap-1">
+                                <input
+                                  type="checkbox"
+                                  checked={account.restrictions.excludedCategories.includes(category)}
+                                  onChange={() => toggleAccountExclusion(account, 'excludedCategories', category)}
+                                />
+                                {category}
+                              </label>
+                            ))}
+                          </div>
+                          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm mt-2">
+                            {ASSET_CLASSES.flatMap(asset => (asset === 'cash' ? [] : securityUniverse[asset])).map(fund => (
+                              <label key={fund.symbol} className="flex items-center gap-1">
+                                <input
+                                  type="checkbox"
+                                  checked={account.restrictions.excludedTickers.includes(fund.symbol)}
+                                  onChange={() => toggleAccountExclusion(account, 'excludedTickers', fund.symbol)}
+                                />
+                                {fund.symbol}
+                              </label>
+                            ))}
                           </div>
                         </div>
                       ))}
                     </div>
+                    <p className="mt-2 text-xs text-gray-500">Restrictions apply when the household target is placed across accounts, e.g. a 401(k) limited to its plan menu.</p>
+                  </div>
+                )}
+
+                {holdingsWarnings.length > 0 && (
+                  <div className="mt-4 space-y-1 text-sm text-red-600">
+                    {holdingsWarnings.map(error => (
+                      <div key={error} className="flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        {error}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Household */}
+            {portfolioSource === 'holdings' && accounts.length > 0 && (
+              <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+                <h2 className="text-xl font-semibold mb-6">Household</h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        {['Account', 'Owner', 'Tax Treatment', 'Value', 'Stocks', 'Bonds', 'Alternatives', 'Cash', 'Expected Return', 'Risk'].map(heading => (
+                          <th key={heading} className="p-2 font-medium">{heading}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {holdingsRollUp.accounts.map(item => {
+                        const metrics = calculateMetrics(item.allocation, assumptions);
+                        return (
+                          <tr key={item.account.name} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                            <td className="p-2 font-medium">{item.account.name || 'Unnamed account'}</td>
+                            <td className="p-2">{item.account.owner || '—'}</td>
+                            <td className="p-2">{ACCOUNT_TYPES.find(type => type.id === item.account.type).label}</td>
+                            <td className="p-2">{formatDollars(item.totalValue)}</td>
+                            {ASSET_CLASSES.map(asset => (
+                              <td key={asset} className="p-2">{item.allocation[asset]}%</td>
+                            ))}
+                            <td className="p-2">{item.totalValue > 0 ? `${(metrics.expectedReturn * 100).toFixed(1)}%` : '—'}</td>
+                            <td className="p-2">{item.totalValue > 0 ? `${(metrics.risk * 100).toFixed(1)}%` : '—'}</td>
+                          </tr>
+                        );
+                      })}
+                      <tr className={`font-bold ${darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}`}>
+                        <td className="p-2" colSpan={3}>Household</td>
+                        <td className="p-2">{formatDollars(holdingsRollUp.totalValue)}</td>
+                        {ASSET_CLASSES.map(asset => (
+                          <td key={asset} className="p-2">{currentPortfolio[asset]}%</td>
+                        ))}
+                        <td className="p-2">{(currentMetrics.expectedReturn * 100).toFixed(1)}%</td>
+                        <td className="p-2">{(currentMetrics.risk * 100).toFixed(1)}%</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+                <p className="mt-3 text-xs text-gray-500">
+                  The household allocation is what the optimizer starts from; its target is placed across the accounts on the Recommendations tab. Based on {currentMetrics.assumptionSet}
+                </p>
+              </div>
+            )}
+
+            {/* Cash Flow Plan */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-2">Cash Flow Plan</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">Amounts are in today's dollars and grow with inflation. Flows happen at the end of each year.</p>
+
+              <div className="grid md:grid-cols-4 gap-4 mb-6">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Annual Contribution ($)</label>
+                  <input
+                    type="number"
+                    value={annualContribution}
+                    onChange={(e) => setAnnualContribution(Math.max(0, Number(e.target.value)))}
+                    className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    min="0"
+                    step="1000"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Annual Withdrawal ($)</label>
+                  <input
+                    type="number"
+                    value={withdrawalPlan.amount}
+                    onChange={(e) => setWithdrawalPlan(prev => ({ ...prev, amount: Math.max(0, Number(e.target.value)) }))}
+                    className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    min="0"
+                    step="1000"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Withdrawals Start (Year)</label>
+                  <input
+                    type="number"
+                    value={withdrawalPlan.startYear}
+                    onChange={(e) => setWithdrawalPlan(prev => ({ ...prev, startYear: Math.max(1, Math.floor(Number(e.target.value))) }))}
+                    className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    min="1"
+                    max="30"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Inflation (%)</label>
+                  <input
+                    type="number"
+                    value={inflationRate}
+                    onChange={(e) => setInflationRate(Math.max(0, Math.min(20, Number(e.target.value))))}
+                    className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    min="0"
+                    max="20"
+                    step="0.1"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-medium">Goals</h3>
+                <button
+                  onClick={() => setPlannedGoals(prev => [...prev, { id: nextGoalId++, name: 'New goal', amount: 50000, year: Math.min(timeHorizon, 5) }])}
+                  className={`px-4 py-2 rounded-lg text-sm ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}
+                >
+                  Add Goal
+                </button>
+              </div>
+
+              <div className="space-y-3">
+                {plannedGoals.map(goal => (
+                  <div key={goal.id} className="grid grid-cols-4 gap-4 items-center">
+                    <input
+                      value={goal.name}
+                      onChange={(e) => setPlannedGoals(prev => prev.map(g => (g.id === goal.id ? { ...g, name: e.target.value } : g)))}
+                      className={`p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                      aria-label="Goal name"
+                    />
+                    <input
+                      type="number"
+                      value={goal.amount}
+                      onChange={(e) => setPlannedGoals(prev => prev.map(g => (g.id === goal.id ? { ...g, amount: Math.max(0, Number(e.target.value)) } : g)))}
+                      className={`p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                      min="0"
+                      step="1000"
+                      aria-label="Goal amount"
+                    />
+                    <input
+                      type="number"
+                      value={goal.year}
+                      onChange={(e) => setPlannedGoals(prev => prev.map(g => (g.id === goal.id ? { ...g, year: Math.max(1, Math.floor(Number(e.target.value))) } : g)))}
+                      className={`p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                      min="1"
+                      aria-label="Goal year"
+                    />
+                    <button
+                      onClick={() => setPlannedGoals(prev => prev.filter(g => g.id !== goal.id))}
+                      className="text-sm text-red-600 hover:underline text-left"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                {plannedGoals.length === 0 && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">No one-off goals. Add a house deposit, tuition or similar with its target year.</p>
+                )}
+                {plannedGoals.some(goal => goal.year > timeHorizon) && (
+                  <div className="flex items-center gap-2 text-sm text-orange-600">
+                    <AlertTriangle className="w-4 h-4" />
+                    Goals after year {timeHorizon} fall outside the investment timeline and are ignored.
+                  </div>
+                )}
+              </div>
+
+              <div className={`mt-6 p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                <div className="text-sm text-gray-600 dark:text-gray-400">Required Return</div>
+                <div className="text-xl font-bold">
+                  {requiredReturn.status === 'ok'
+                    ? `${(requiredReturn.rate * 100).toFixed(1)}% per year`
+                    : requiredReturn.status === 'none' ? '—' : 'Not reachable'}
+                </div>
+                <div className="text-xs text-gray-500">Compound growth needed to fund every withdrawal and goal in full</div>
+              </div>
+            </div>
+
+            {/* Optimizer Settings */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Optimizer Settings</h2>
+
+              <div className="grid md:grid-cols-4 gap-6 mb-6">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Objective</label>
+                  <select
+                    value={optimizationMode}
+                    onChange={(e) => setOptimizationMode(e.target.value)}
+                    className={`w-full p-3 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  >
+                    <option value="targetReturn">
+                      Target Return (minimum risk for {usePlanTarget ? `${(requiredReturn.rate * 100).toFixed(1)}% required` : `${expectedReturn}%`})
+                    </option>
+                    <option value="maxSharpe">Maximum Sharpe Ratio</option>
+                    <option value="minVariance">Minimum Variance</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">Return Target</label>
+                  <select
+                    value={returnTargetSource}
+                    onChange={(e) => setReturnTargetSource(e.target.value)}
+                    disabled={optimizationMode !== 'targetReturn'}
+                    className={`w-full p-3 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'} disabled:opacity-50`}
+                  >
+                    <option value="slider">Expected return slider</option>
+                    <option value="plan">Required return from cash-flow plan</option>
+                  </select>
+                  {returnTargetSource === 'plan' && !usePlanTarget && (
+                    <div className="text-xs text-orange-600 mt-1">
+                      {requiredReturn.status === 'none' ? 'The plan has no withdrawals or goals; using the slider.' : 'The plan cannot be funded at any return up to 25%; using the slider.'}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">Universe</label>
+                  <select
+                    value={universe}
+                    onChange={(e) => setUniverse(e.target.value)}
+                    className={`w-full p-3 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  >
+                    <option value="assetClasses">Asset Classes</option>
+                    <option value="securities">Individual ETFs</option>
+                  </select>
+                </div>
+
+                <div className="flex items-end">
+                  <label className="flex items-center gap-2 text-sm font-medium pb-3">
+                    <input
+                      type="checkbox"
+                      checked={longOnly}
+                      onChange={(e) => setLongOnly(e.target.checked)}
+                    />
+                    Long-only (no short positions)
+                  </label>
+                </div>
+              </div>
+
+              <h3 className="text-lg font-medium mb-4">Weight Bounds (%)</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {Object.entries(weightBounds).map(([asset, bounds]) => (
+                  <div key={asset}>
+                    <label className="block text-sm font-medium mb-2 capitalize">{asset}</label>
+                    <div className="flex gap-2">
+                      {['min', 'max'].map(side => (
+                        <input
+                          key={side}
+                          type="number"
+                          value={bounds[side]}
+                          onChange={(e) => setWeightBounds(prev => ({
+                            ...prev,
+                            [asset]: { ...prev[asset], [side]: Math.max(longOnly ? 0 : -100, Math.min(100, Number(e.target.value))) }
+                          }))}
+                          className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                          min={longOnly ? 0 : -100}
+                          max="100"
+                          aria-label={`${asset} ${side}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {optimization.conflicts.length > 0 && (
+                <div className="mt-4 space-y-1 text-sm text-red-600">
+                  {optimization.conflicts.map(conflict => (
+                    <div key={conflict} className="flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      {conflict}
+                    </div>
+                  ))}
+                  <div>These constraints cannot all be met. Showing the model allocation for the risk profile instead.</div>
+                </div>
+              )}
+
+              <h3 className="text-lg font-medium mt-8 mb-4">Restrictions</h3>
+              <div className="grid md:grid-cols-3 gap-6 mb-6">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Minimum Cash (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={constraints.cashFloor}
+                    onChange={(e) => setConstraints(prev => ({ ...prev, cashFloor: Math.max(0, Math.min(100, Number(e.target.value))) }))}
+                    className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Maximum Turnover (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={constraints.maxTurnover ?? ''}
+                    placeholder="No limit"
+                    onChange={(e) => setConstraints(prev => ({
+                      ...prev,
+                      maxTurnover: e.target.value === '' ? null : Math.max(0, Math.min(100, Number(e.target.value)))
+                    }))}
+                    className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  />
+                  <div className="text-xs text-gray-500 mt-1">One-way, measured on asset-class weights from the current portfolio</div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Excluded Categories</label>
+                  <div className="flex flex-wrap gap-2">
+                    {fundCategories.map(category => (
+                      <label key={category} className="flex items-center gap-1 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={constraints.excludedCategories.includes(category)}
+                          onChange={() => toggleExclusion('excludedCategories', category)}
+                        />
+                        {category}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="p-2 font-medium">Fund</th>
+                      <th className="p-2 font-medium">Category</th>
+                      <th className="p-2 font-medium">Exclude</th>
+                      <th className="p-2 font-medium">Min (% of portfolio)</th>
+                      <th className="p-2 font-medium">Max (% of portfolio)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ASSET_CLASSES.flatMap(asset => (asset === 'cash' ? [] : securityUniverse[asset])).map(fund => {
+                      const excludedByCategory = constraints.excludedCategories.includes(fund.category);
+                      const bound = constraints.securityBounds[fund.symbol];
+                      return (
+                        <tr key={fund.symbol} className={`${darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'} ${excludedByCategory || constraints.excludedTickers.includes(fund.symbol) ? 'opacity-50' : ''}`}>
+                          <td className="p-2 font-medium" title={fund.name}>{fund.symbol}</td>
+                          <td className="p-2">{fund.category}</td>
+                          <td className="p-2">
+                            <input
+                              type="checkbox"
+                              checked={excludedByCategory || constraints.excludedTickers.includes(fund.symbol)}
+                              disabled={excludedByCategory}
+                              onChange={() => toggleExclusion('excludedTickers', fund.symbol)}
+                              aria-label={`Exclude ${fund.symbol}`}
+                            />
+                          </td>
+                          {['min', 'max'].map(side => (
+                            <td key={side} className="p-2">
+                              <input
+                                type="number"
+                                min="0"
+                                max="100"
+                                value={bound ? bound[side] : ''}
+                                placeholder={side === 'min' ? '0' : '100'}
+                                onChange={(e) => updateSecurityBound(fund.symbol, side, e.target.value)}
+                                className={`w-24 p-1 rounded border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                                aria-label={`${fund.symbol} ${side}`}
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Capital Market Assumptions */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                <h2 className="text-xl font-semibold">Capital Market Assumptions</h2>
+                <div className="flex flex-wrap gap-2">
+                  <label className={`px-4 py-2 rounded-lg flex items-center gap-2 cursor-pointer text-sm ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}>
+                    <Upload className="w-4 h-4" />
+                    Load Assumptions JSON
+                    <input type="file" accept=".json,application/json" onChange={handleAssumptionsUpload} className="hidden" />
+                  </label>
+                  <button
+                    onClick={() => downloadFile(`${assumptions.id}.json`, assumptionsToJson(assumptions), 'application/json')}
+                    className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}
+                  >
+                    <Download className="w-4 h-4" />
+                    Download JSON
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Assumption Set</label>
+                  <select
+                    value={assumptionSetId}
+                    onChange={(e) => selectAssumptionSet(e.target.value)}
+                    className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  >
+                    {assumptionSets.map(set => (
+                      <option key={set.id} value={set.id}>{assumptionLabel(set)}</option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-xs text-gray-500">
+                    {[assumptions.source, assumptions.asOf && `as of ${assumptions.asOf}`].filter(Boolean).join(', ')}
+                  </p>
+
+                  <table className="w-full text-sm mt-4">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 font-medium">Asset Class</th>
+                        <th className="py-1 font-medium text-right">Expected Return</th>
+                        <th className="py-1 font-medium text-right">Volatility</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {ASSET_CLASSES.map(asset => (
+                        <tr key={asset}>
+                          <td className="py-1 capitalize">{asset}</td>
+                          <td className="py-1 text-right">{(classReturns[asset] * 100).toFixed(1)}%</td>
+                          <td className="py-1 text-right">{(classRisks[asset] * 100).toFixed(1)}%</td>
+                        </tr>
+                      ))}
+                      <tr>
+                        <td className="py-1">Risk-free rate</td>
+                        <td className="py-1 text-right">{(assumptions.riskFreeRate * 100).toFixed(1)}%</td>
+                        <td />
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">Estimate from Price History</label>
+                  <p className="text-xs text-gray-500 mb-3">
+                    A CSV with a "date" column followed by one closing-price column per ticker (daily or monthly, at least {MIN_HISTORY_MONTHS} months).
+                    Tickers are grouped into asset classes; classes without prices keep the {assumptionLabel(baseAssumptions)} figures.
+                  </p>
+                  <label className={`inline-flex px-4 py-2 rounded-lg items-center gap-2 cursor-pointer text-sm ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}>
+                    <Upload className="w-4 h-4" />
+                    Load Prices CSV
+                    <input type="file" accept=".csv,text/csv" onChange={handlePriceHistoryUpload} className="hidden" />
+                  </label>
+                  {priceHistory && (
+                    <p className="mt-2 text-sm">
+                      {priceHistory.name}: {priceHistory.rows.length} monthly returns, {priceHistory.rows[0].month} to {priceHistory.rows[priceHistory.rows.length - 1].month}
+                      {priceHistory.blocked && '. Fix the problems below and load the file again before estimating.'}
+                    </p>
+                  )}
+
+                  <label className="block text-sm font-medium mt-4 mb-2">Shrinkage: {shrinkage}%</label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="5"
+                    value={shrinkage}
+                    onChange={(e) => setShrinkage(Number(e.target.value))}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Pulls expected returns toward their average and correlations toward their mean; 0% keeps the sample estimates.
+                  </p>
+                  <button
+                    onClick={estimateAssumptions}
+                    disabled={!priceHistory || priceHistory.blocked}
+                    className={`mt-4 px-4 py-2 rounded-lg text-sm text-white ${priceHistory && !priceHistory.blocked ? 'bg-blue-500 hover:bg-blue-600' : 'bg-gray-400 cursor-not-allowed'} transition-colors`}
+                  >
+                    Estimate Assumptions
+                  </button>
+                </div>
+              </div>
+
+              {assumptionMessages.length > 0 && (
+                <div className="mt-4 space-y-1 text-sm text-orange-600">
+                  {assumptionMessages.slice(0, 10).map(message => (
+                    <div key={message} className="flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      {message}
+                    </div>
+                  ))}
+                  {assumptionMessages.length > 10 && <div>…and {assumptionMessages.length - 10} more</div>}
+                </div>
+              )}
+            </div>
+
+            {/* Correlation Assumptions */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-semibold">Correlation Assumptions</h2>
+                <button
+                  onClick={() => setCorrelations(baseAssumptions.correlations)}
+                  className={`px-4 py-2 rounded-lg text-sm ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}
+                >
+                  Reset to {baseAssumptions.name}
+                </button>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th />
+                      {ASSET_CLASSES.map(asset => (
+                        <th key={asset} className="p-2 font-medium capitalize">{asset}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ASSET_CLASSES.map((rowAsset, i) => (
+                      <tr key={rowAsset}>
+                        <td className="p-2 font-medium capitalize">{rowAsset}</td>
+                        {ASSET_CLASSES.map((colAsset, j) => (
+                          <td key={colAsset} className="p-2 text-center">
+                            {j > i ? (
+                              <input
+                                type="number"
+                                value={Number.isFinite(correlations[i][j]) ? correlations[i][j] : ''}
+                                onChange={(e) => updateCorrelation(i, j, e.target.value === '' ? NaN : Number(e.target.value))}
+                                className={`w-20 p-1 rounded border text-center ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                                min="-1"
+                                max="1"
+                                step="0.05"
+                                aria-label={`${rowAsset} / ${colAsset} correlation`}
+                              />
+                            ) : (
+                              <span className="text-gray-500">{Number.isFinite(correlations[i][j]) ? correlations[i][j].toFixed(2) : '—'}</span>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {correlationErrors.length > 0 && (
+                <div className="mt-4 space-y-1 text-sm text-red-600">
+                  {correlationErrors.map(error => (
+                    <div key={error} className="flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      {error}
+                    </div>
+                  ))}
+                  <div>Using the {assumptionLabel(baseAssumptions)} correlations until the matrix is fixed.</div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'analysis' && (
+          <div className="grid lg:grid-cols-2 gap-8">
+            {/* Portfolio Comparison */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Portfolio Comparison</h2>
+              
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                <PieChartComponent data={currentPortfolio} title="Current" />
+                <PieChartComponent data={optimizePortfolio} title="Optimized" />
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex justify-between items-center p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
+                  <span>Expected Return</span>
+                  <div className="flex gap-4">
+                    <span className="text-gray-600">{(currentMetrics.expectedReturn * 100).toFixed(1)}%</span>
+                    <span className="text-green-600 font-bold">→ {(optimizedMetrics.expectedReturn * 100).toFixed(1)}%</span>
+                  </div>
+                </div>
+                
+                <div className="flex justify-between items-center p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
+                  <span>Risk Level</span>
+                  <div className="flex gap-4">
+                    <span className="text-gray-600">{(currentMetrics.risk * 100).toFixed(1)}%</span>
+                    <span className="text-blue-600 font-bold">→ {(optimizedMetrics.risk * 100).toFixed(1)}%</span>
+                  </div>
+                </div>
+                
+                <div className="flex justify-between items-center p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
+                  <span>Sharpe Ratio</span>
+                  <div className="flex gap-4">
+                    <span className="text-gray-600">{currentMetrics.sharpeRatio.toFixed(2)}</span>
+                    <span className="text-purple-600 font-bold">→ {optimizedMetrics.sharpeRatio.toFixed(2)}</span>
+                  </div>
+                </div>
+              </div>
+              <p className="mt-3 text-xs text-gray-500">Based on {optimizedMetrics.assumptionSet}</p>
+            </div>
+
+            {/* Growth Projection */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Growth Projection</h2>
+              
+              <div className="flex justify-between items-center mb-4">
+                <div className="flex gap-2">
+                  {['current', 'optimized'].map(key => (
+                    <button
+                      key={key}
+                      onClick={() => setFanPortfolio(key)}
+                      className={`px-3 py-1 rounded-lg text-sm capitalize ${fanPortfolio === key
+                        ? 'bg-blue-500 text-white'
+                        : darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}
+                    >
+                      {key}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-500">2,000 simulated paths</span>
+                  <select
+                    value={dollarView}
+                    onChange={(e) => setDollarView(e.target.value)}
+                    className={`p-1 rounded-lg border text-sm ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    aria-label="Dollar view"
+                  >
+                    <option value="nominal">Nominal $</option>
+                    <option value="real">Real (today's) $</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="h-64 mb-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={fanChartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" />
+                    <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                    <Tooltip formatter={(value) => (Array.isArray(value) ? value.map(formatDollars).join(' – ') : formatDollars(value))} />
+                    <Legend />
+                    <Area type="monotone" dataKey="outer" stroke="none" fill="#82ca9d" fillOpacity={0.2} name="5th–95th Percentile" />
+                    <Area type="monotone" dataKey="inner" stroke="none" fill="#82ca9d" fillOpacity={0.4} name="25th–75th Percentile" />
+                    <Line type="monotone" dataKey="median" stroke="#2f855a" name="Median" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="expected" stroke="#8884d8" name="Expected (no volatility)" strokeDasharray="5 5" dot={false} />
+                    <Line type="monotone" dataKey="net" stroke="#ff7300" name="Expected, net of fees" strokeDasharray="5 5" dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Goal ({dollarView === 'real' ? "today's $" : '$'})</label>
+                  <input
+                    type="number"
+                    value={goalAmount}
+                    onChange={(e) => setGoalAmount(Math.max(0, Number(e.target.value)))}
+                    className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    min="0"
+                    step="10000"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Random Seed</label>
+                  <input
+                    type="number"
+                    value={simulationSeed}
+                    onChange={(e) => setSimulationSeed(Math.floor(Number(e.target.value)))}
+                    className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {[
+                  { key: 'current', label: 'Current Portfolio', color: '' },
+                  { key: 'optimized', label: 'Optimized Portfolio', color: 'text-green-600' }
+                ].map(({ key, label, color }) => (
+                  <div key={key} className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">{label}</div>
+                    <div className={`text-xl font-bold ${color}`}>{formatDollars(simulations[key].bands[timeHorizon].p50 / deflator(timeHorizon))}</div>
+                    <div className="text-xs text-gray-500 mb-2">median after {timeHorizon} years</div>
+                    <div className="text-sm">Goal reached: <span className="font-medium">{(simulations[key].goalProbability * 100).toFixed(0)}%</span></div>
+                    <div className="text-sm">Worst drawdown: <span className="font-medium text-red-600">{(simulations[key].worstDrawdown * 100).toFixed(1)}%</span></div>
+                    <div className="text-xs text-gray-500">1-in-20 drawdown: {(simulations[key].drawdown95 * 100).toFixed(1)}%</div>
                   </div>
                 ))}
               </div>
             </div>
 
+            {/* Fees and Expenses */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Fees and Expenses</h2>
+
+              <div className="grid lg:grid-cols-2 gap-6">
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={projectionData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="year" />
+                      <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                      <Tooltip formatter={(value) => formatDollars(value)} />
+                      <Legend />
+                      <Line type="monotone" dataKey="current" stroke="#8884d8" name="Current, gross" dot={false} />
+                      <Line type="monotone" dataKey="currentNet" stroke="#8884d8" name="Current, net" strokeDasharray="5 5" dot={false} />
+                      <Line type="monotone" dataKey="optimized" stroke="#82ca9d" name="Optimized, gross" strokeWidth={2} dot={false} />
+                      <Line type="monotone" dataKey="optimizedNet" stroke="#82ca9d" name="Optimized, net" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <table className="w-full text-sm self-start">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="p-2 font-medium"></th>
+                      <th className="p-2 font-medium text-right">Current</th>
+                      <th className="p-2 font-medium text-right">Optimized</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      { label: 'Fund expense ratio', value: key => `${(expenseRatios[key] * 100).toFixed(2)}%` },
+                      { label: 'Advisory fee', value: () => `${advisoryFee.toFixed(2)}%` },
+                      { label: 'Total annual fees', value: key => `${((expenseRatios[key] + advisoryFee / 100) * 100).toFixed(2)}%` },
+                      { label: `Fees paid over ${timeHorizon} years`, value: key => formatDollars(feeTotals(feeProjections[key]).paid) },
+                      { label: 'Ending value, gross', value: key => formatDollars(projectionData[timeHorizon][key]) },
+                      { label: 'Ending value, net', value: key => formatDollars(projectionData[timeHorizon][`${key}Net`]) },
+                      { label: 'Cost including lost growth', value: key => formatDollars(feeTotals(feeProjections[key]).cost) }
+                    ].map(({ label, value }) => (
+                      <tr key={label} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                        <td className="p-2">{label}</td>
+                        <td className="p-2 text-right">{value('current')}</td>
+                        <td className="p-2 text-right font-semibold">{value('optimized')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-4 text-xs text-gray-500">
+                Fees are charged at each year end on the grown balance. {portfolioSource === 'holdings' ? 'Current expense ratios come from the holdings' : 'The current portfolio is assumed to hold each asset class evenly across its funds'};
+                {' '}values in {dollarView === 'real' ? "today's dollars" : 'nominal dollars'}.
+              </p>
+            </div>
+
+            {/* Performance Attribution */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <div className="flex justify-between items-center mb-1">
+                <h2 className="text-xl font-semibold">Performance Attribution</h2>
+                <select
+                  value={benchmarkId}
+                  onChange={(e) => setBenchmarkId(e.target.value)}
+                  className={`p-2 rounded-lg border text-sm ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  aria-label="Benchmark"
+                >
+                  {BENCHMARKS.map(item => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500 mb-6">
+                Brinson attribution of each portfolio's expected return against a {benchmark.name} benchmark held at asset-class index returns, based on {assumptionsLabel}
+              </p>
+
+              <div className="grid lg:grid-cols-2 gap-6">
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      data={[['allocation', 'Allocation'], ['selection', 'Selection'], ['interaction', 'Interaction']].map(([key, name]) => ({
+                        name,
+                        current: attribution.current[key] * 100,
+                        optimized: attribution.optimized[key] * 100
+                      }))}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="name" />
+                      <YAxis tickFormatter={(value) => `${value.toFixed(1)}%`} />
+                      <Tooltip formatter={(value) => `${Number(value).toFixed(2)}%`} />
+                      <Legend />
+                      <Bar dataKey="current" name="Current" fill="#8884d8" />
+                      <Bar dataKey="optimized" name="Optimized" fill="#82ca9d" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <table className="w-full text-sm self-start">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="p-2 font-medium"></th>
+                      <th className="p-2 font-medium text-right">Current</th>
+                      <th className="p-2 font-medium text-right">Optimized</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      ['portfolioReturn', 'Expected return (net of fund expenses)'],
+                      ['benchmarkReturn', 'Benchmark return'],
+                      ['activeReturn', 'Active return'],
+                      ['allocation', 'Allocation effect'],
+                      ['selection', 'Selection effect'],
+                      ['interaction', 'Interaction']
+                    ].map(([key, label]) => (
+                      <tr key={key} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                        <td className={`p-2 ${key === 'activeReturn' ? 'font-medium' : ''}`}>{label}</td>
+                        <td className="p-2 text-right">{(attribution.current[key] * 100).toFixed(2)}%</td>
+                        <td className="p-2 text-right font-semibold">{(attribution.optimized[key] * 100).toFixed(2)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <table className="w-full text-sm mt-6">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    {['Asset Class', 'Benchmark Weight', 'Current Weight', 'Optimized Weight', 'Current Allocation / Selection', 'Optimized Allocation / Selection'].map(heading => (
+                      <th key={heading} className="p-2 font-medium">{heading}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {ASSET_CLASSES.map((asset, k) => {
+                    const current = attribution.current.byClass[k];
+                    const optimized = attribution.optimized.byClass[k];
+                    const effects = (item) => `${(item.allocation * 100).toFixed(2)}% / ${((item.selection + item.interaction) * 100).toFixed(2)}%`;
+                    return (
+                      <tr key={asset} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                        <td className="p-2 capitalize">{asset}</td>
+                        <td className="p-2">{(current.benchmarkWeight * 100).toFixed(1)}%</td>
+                        <td className="p-2">{(current.portfolioWeight * 100).toFixed(1)}%</td>
+                        <td className="p-2">{(optimized.portfolioWeight * 100).toFixed(1)}%</td>
+                        <td className="p-2">{effects(current)}</td>
+                        <td className="p-2 font-semibold">{effects(optimized)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-gray-500">
+                Allocation is the return from over- or underweighting asset classes relative to the benchmark; selection is the return from the funds chosen within each class,
+                after their expense ratios, and includes the interaction term in the class table. Advisory fees are not attributed.
+              </p>
+            </div>
+
+            {/* Goal Funding */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Goal Funding</h2>
+
+              {optimizedPlan.goalStatus.length === 0 && withdrawalPlan.amount === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">Add withdrawals or goals in the Cash Flow Plan to check whether they are funded.</p>
+              ) : (
+                <div className="space-y-3">
+                  {optimizedPlan.goalStatus.map((goal, i) => {
+                    const currentGoal = currentPlan.goalStatus[i];
+                    return (
+                      <div key={goal.id} className="flex justify-between items-center p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
+                        <span>{goal.name} · year {goal.year} · {formatDollars(goal.amount / deflator(goal.year))}</span>
+                        <div className="flex gap-4">
+                          <span className={currentGoal.fullyFunded ? 'text-green-600' : 'text-red-600'}>
+                            {currentGoal.fullyFunded ? 'Funded' : `${((currentGoal.funded / goal.amount) * 100).toFixed(0)}% funded`}
+                          </span>
+                          <span className={`font-bold ${goal.fullyFunded ? 'text-green-600' : 'text-red-600'}`}>
+                            → {goal.fullyFunded ? 'Funded' : `${((goal.funded / goal.amount) * 100).toFixed(0)}% funded`}
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {withdrawalPlan.amount > 0 && (
+                    <div className="flex justify-between items-center p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
+                      <span>Withdrawals of {formatDollars(withdrawalPlan.amount)}/yr (today's $) from year {withdrawalPlan.startYear}</span>
+                      <div className="flex gap-4">
+                        {[currentPlan, optimizedPlan].map((plan, i) => (
+                          <span key={i} className={`${i === 1 ? 'font-bold' : ''} ${plan.withdrawalShortfall < 0.5 ? 'text-green-600' : 'text-red-600'}`}>
+                            {i === 1 && '→ '}{plan.withdrawalShortfall < 0.5 ? 'Funded' : `Depleted in year ${plan.depletedYear}`}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500">Current → optimized portfolio, compounding at each portfolio's expected geometric return.</div>
+                </div>
+              )}
+            </div>
+
+            {/* Efficient Frontier */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-1">Efficient Frontier</h2>
+              <p className="text-xs text-gray-500 mb-6">Based on {assumptionsLabel}</p>
+
+              <div className="h-80 mb-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" dataKey="risk" name="Risk" unit="%" domain={['auto', 'auto']} tickFormatter={(value) => value.toFixed(1)} />
+                    <YAxis type="number" dataKey="return" name="Return" unit="%" domain={['auto', 'auto']} tickFormatter={(value) => value.toFixed(1)} />
+                    <Tooltip formatter={(value) => `${Number(value).toFixed(2)}%`} />
+                    <Legend />
+                    <Scatter name="Efficient Frontier" data={optimization.frontier} fill="#8884d8" line={{ stroke: '#8884d8', strokeWidth: 2 }} />
+                    <Scatter name="Current" data={[{ risk: currentMetrics.risk * 100, return: currentMetrics.expectedReturn * 100 }]} fill="#ff7300" />
+                    {optimization.metrics && (
+                      <Scatter name="Optimized" data={[optimization.metrics]} fill="#82ca9d" />
+                    )}
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+
+              {optimization.note && (
+                <div className="flex items-center gap-2 text-sm text-orange-600">
+                  <Info className="w-4 h-4" />
+                  {optimization.note}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'risk' && (
+          <div className="grid lg:grid-cols-2 gap-8">
+            {/* Value at Risk */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-1">Value at Risk (1 Month)</h2>
+              <p className="text-xs text-gray-500 mb-6">
+                Loss not expected to be exceeded at each confidence level (VaR) and the average loss beyond it (CVaR), on {formatDollars(investmentAmount)}.
+              </p>
+
+              {!backtests && (
+                <div className="mb-4 flex items-center gap-2 text-sm text-orange-600">
+                  <Info className="w-4 h-4" />
+                  Historical VaR, CVaR and max drawdown need monthly return history, and none ships with the dashboard. Load a returns CSV on the Backtest tab to fill them in.
+                </div>
+              )}
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="p-2 font-medium">Measure</th>
+                    <th className="p-2 font-medium text-right">Current</th>
+                    <th className="p-2 font-medium text-right">Optimized</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[['parametric', 'Parametric'], ['historical', 'Historical']].flatMap(([method, methodLabel]) =>
+                    VAR_CONFIDENCE_LEVELS.flatMap((confidence, k) => [['valueAtRisk', 'VaR'], ['conditionalVaR', 'CVaR']].map(([measure, measureLabel]) => {
+                      const cell = (key) => {
+                        const tail = riskAnalytics[key][method]?.[k];
+                        return tail ? `${(tail[measure] * 100).toFixed(1)}% (${formatDollars(tail[measure] * investmentAmount)})` : '—';
+                      };
+                      return (
+                        <tr key={`${method}-${confidence}-${measure}`} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                          <td className="p-2">{methodLabel} {measureLabel} {confidence * 100}%</td>
+                          <td className="p-2 text-right">{cell('current')}</td>
+                          <td className="p-2 text-right font-semibold">{cell('optimized')}</td>
+                        </tr>
+                      );
+                    })))}
+                </tbody>
+              </table>
+
+              <p className="mt-4 text-xs text-gray-500">
+                Parametric figures assume normally distributed returns with the expected return and volatility from {assumptionsLabel}.
+                {backtests && ` Historical figures use the ${returnHistory.length} monthly returns from the Backtest tab.`}
+              </p>
+            </div>
+
+            {/* Drawdown */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Drawdown</h2>
+              <div className="grid grid-cols-2 gap-4">
+                {[['current', 'Current'], ['optimized', 'Optimized']].map(([key, label]) => (
+                  <div key={key} className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">{label}: expected max drawdown over {timeHorizon} years</div>
+                    <div className="text-2xl font-bold text-red-600">-{(riskAnalytics[key].expectedDrawdown * 100).toFixed(1)}%</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {riskAnalytics[key].historicalDrawdown !== null
+                        ? `Historical max drawdown: -${(riskAnalytics[key].historicalDrawdown * 100).toFixed(1)}%`
+                        : 'Historical max drawdown needs return history from the Backtest tab'}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-4 text-xs text-gray-500">
+                Average of the worst peak-to-trough decline across simulated paths, before contributions and withdrawals. Based on {assumptionsLabel}.
+              </p>
+            </div>
+
+            {/* Risk Contribution */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Risk Contribution</h2>
+              <div className="grid md:grid-cols-2 gap-6">
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <RadarChart
+                      data={ASSET_CLASSES.map((asset, i) => ({
+                        asset: asset.charAt(0).toUpperCase() + asset.slice(1),
+                        current: riskAnalytics.current.contributions[i].percent * 100,
+                        optimized: riskAnalytics.optimized.contributions[i].percent * 100
+                      }))}
+                    >
+                      <PolarGrid />
+                      <PolarAngleAxis dataKey="asset" />
+                      <PolarRadiusAxis tickFormatter={(value) => `${value}%`} />
+                      <Radar name="Current" dataKey="current" stroke="#8884d8" fill="#8884d8" fillOpacity={0.3} />
+                      <Radar name="Optimized" dataKey="optimized" stroke="#82ca9d" fill="#82ca9d" fillOpacity={0.3} />
+                      <Legend />
+                      <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} />
+                    </RadarChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <table className="w-full text-sm self-start">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="p-2 font-medium">Asset Class</th>
+                      <th className="p-2 font-medium text-right">Weight</th>
+                      <th className="p-2 font-medium text-right">Marginal</th>
+                      <th className="p-2 font-medium text-right">Contribution</th>
+                      <th className="p-2 font-medium text-right">% of Risk</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {riskAnalytics.optimized.contributions.map((item, i) => (
+                      <tr key={item.assetClass} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                        <td className="p-2 capitalize">{item.assetClass}</td>
+                        <td className="p-2 text-right">{(item.weight * 100).toFixed(1)}%</td>
+                        <td className="p-2 text-right">{(item.marginal * 100).toFixed(1)}%</td>
+                        <td className="p-2 text-right">{(item.contribution * 100).toFixed(2)}%</td>
+                        <td className="p-2 text-right font-semibold">
+                          {(item.percent * 100).toFixed(1)}%
+                          <span className="ml-2 font-normal text-gray-500">(now {(riskAnalytics.current.contributions[i].percent * 100).toFixed(1)}%)</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-4 text-xs text-gray-500">
+                Optimized portfolio. Marginal is the volatility added per unit of extra weight; contributions sum to the portfolio's {(optimizedMetrics.risk * 100).toFixed(1)}% volatility. Based on {assumptionsLabel}.
+              </p>
+            </div>
+
+            {/* Stress Tests */}
+            <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Stress Tests</h2>
+              <div className="h-72 mb-6">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={STRESS_SCENARIOS.map((scenario, i) => ({
+                      name: scenario.name,
+                      current: riskAnalytics.current.stress[i].portfolioReturn * 100,
+                      optimized: riskAnalytics.optimized.stress[i].portfolioReturn * 100
+                    }))}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis tickFormatter={(value) => `${value}%`} />
+                    <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} />
+                    <Legend />
+                    <Bar dataKey="current" name="Current" fill="#8884d8" />
+                    <Bar dataKey="optimized" name="Optimized" fill="#82ca9d" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="p-2 font-medium">Scenario</th>
+                    <th className="p-2 font-medium">Asset Class Returns</th>
+                    <th className="p-2 font-medium text-right">Current</th>
+                    <th className="p-2 font-medium text-right">Optimized</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {STRESS_SCENARIOS.map((scenario, i) => (
+                    <tr key={scenario.id} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                      <td className="p-2">
+                        <div className="font-medium">{scenario.name}</div>
+                        <div className="text-xs text-gray-500">{scenario.period}</div>
+                      </td>
+                      <td className="p-2 text-xs text-gray-500">
+                        {ASSET_CLASSES.map(asset => `${asset} ${(scenario.shocks[asset] * 100).toFixed(0)}%`).join(', ')}
+                      </td>
+                      {['current', 'optimized'].map(key => {
+                        const { portfolioReturn } = riskAnalytics[key].stress[i];
+                        return (
+                          <td key={key} className={`p-2 text-right ${portfolioReturn < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {(portfolioReturn * 100).toFixed(1)}% ({portfolioReturn < 0 ? '-' : '+'}{formatDollars(Math.abs(portfolioReturn * investmentAmount))})
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-4 text-xs text-gray-500">
+                Each asset class takes the approximate total return of a broad index proxy over the episode, applied to today's allocation with no rebalancing.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'backtest' && (
+          <div className="space-y-8">
+            {/* Dataset */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold">Historical Backtest</h2>
+                <label className={`px-4 py-2 rounded-lg flex items-center gap-2 cursor-pointer ${darkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white transition-colors`}>
+                  <Upload className="w-4 h-4" />
+                  Load Returns CSV
+                  <input type="file" accept=".csv,text/csv" onChange={handleHistoryUpload} className="hidden" />
+                </label>
+              </div>
+
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {returnHistory.length > 0
+                  ? `${uploadedHistory ? 'Uploaded' : 'Bundled'} monthly returns, ${returnHistory[0].month} to ${returnHistory[returnHistory.length - 1].month} (${historyTickers.join(', ')}). Rebalancing ${rebalanceFreq === 'never' ? 'disabled' : rebalanceFreq}.`
+                  : 'No return history is loaded, and none ships with the dashboard. Load a CSV with a "month" column followed by one column per ticker, or add monthly returns to data/monthly_returns.json.'}
+              </p>
+
+              {historyErrors.length > 0 && (
+                <div className="mt-4 space-y-1 text-sm text-red-600">
+                  {historyErrors.slice(0, 10).map(error => (
+                    <div key={error} className="flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      {error}
+                    </div>
+                  ))}
+                  {historyErrors.length > 10 && <div>…and {historyErrors.length - 10} more</div>}
+                </div>
+              )}
+
+              {backtests && [...new Set([...backtests.current.unmapped, ...backtests.optimized.unmapped])].map(assetClass => (
+                <div key={assetClass} className="mt-2 flex items-center gap-2 text-sm text-orange-600">
+                  <Info className="w-4 h-4" />
+                  No history for any {assetClass} ticker; that weight is held as cash in the backtest.
+                </div>
+              ))}
+            </div>
+
+            {backtests && (
+              <div className="grid lg:grid-cols-2 gap-8">
+                {/* Growth of Investment */}
+                <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+                  <h2 className="text-xl font-semibold mb-6">Growth of {formatDollars(tradeList.totalValue)}</h2>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={backtests.current.series.map((point, i) => ({
+                        month: point.month,
+                        current: point.value,
+                        optimized: backtests.optimized.series[i].value
+                      }))}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="month" minTickGap={24} />
+                        <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                        <Tooltip formatter={(value) => formatDollars(value)} />
+                        <Legend />
+                        <Line type="monotone" dataKey="current" stroke="#8884d8" name="Current Portfolio" strokeWidth={2} dot={false} />
+                        <Line type="monotone" dataKey="optimized" stroke="#82ca9d" name="Optimized Portfolio" strokeWidth={2} dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                {/* Backtest Metrics */}
+                <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+                  <h2 className="text-xl font-semibold mb-6">Realized Metrics</h2>
+                  <div className="space-y-4">
+                    {[
+                      { label: 'CAGR', format: (r) => `${(r.cagr * 100).toFixed(1)}%` },
+                      { label: 'Volatility', format: (r) => `${(r.volatility * 100).toFixed(1)}%` },
+                      { label: 'Max Drawdown', format: (r) => `${(r.maxDrawdown * 100).toFixed(1)}%` },
+                      { label: 'Sortino Ratio', format: (r) => r.sortino.toFixed(2) }
+                    ].map(({ label, format }) => (
+                      <div key={label} className="flex justify-between items-center p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
+                        <span>{label}</span>
+                        <div className="flex gap-4">
+                          <span className="text-gray-600">{format(backtests.current)}</span>
+                          <span className="text-green-600 font-bold">→ {format(backtests.optimized)}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Calendar-Year Returns */}
+                <div className={`lg:col-span-2 p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+                  <h2 className="text-xl font-semibold mb-6">Calendar-Year Returns</h2>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={backtests.current.calendarYears.map((year, i) => ({
+                        year: year.partial ? `${year.year}*` : year.year,
+                        current: year.return * 100,
+                        optimized: backtests.optimized.calendarYears[i].return * 100
+                      }))}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="year" />
+                        <YAxis tickFormatter={(value) => `${value.toFixed(0)}%`} />
+                        <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} />
+                        <Legend />
+                        <Bar dataKey="current" fill="#8884d8" name="Current Portfolio" />
+                        <Bar dataKey="optimized" fill="#82ca9d" name="Optimized Portfolio" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  {backtests.current.calendarYears.some(year => year.partial) && (
+                    <div className="text-xs text-gray-500 mt-2">* Partial year</div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'scenarios' && (
+          <div className="space-y-8">
+            {/* Saved Scenarios */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Saved Scenarios</h2>
+
+              <div className="grid md:grid-cols-3 gap-4 mb-4">
+                <div className="md:col-span-2 flex gap-2">
+                  <input
+                    value={scenarioName}
+                    onChange={(e) => setScenarioName(e.target.value)}
+                    placeholder="Scenario name, e.g. Smith household – retire at 60"
+                    className={`flex-1 p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  />
+                  <button
+                    onClick={saveScenario}
+                    disabled={!scenarioName.trim()}
+                    className={`px-4 py-2 rounded-lg flex items-center gap-2 ${darkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white transition-colors disabled:opacity-50`}
+                  >
+                    <Save className="w-4 h-4" />
+                    Save Version
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <select
+                    value={storageKind}
+                    onChange={(e) => setStorageKind(e.target.value)}
+                    className={`flex-1 p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    aria-label="Scenario storage"
+                  >
+                    <option value="local">Browser storage</option>
+                    <option value="file">JSON file</option>
+                  </select>
+                  {storageKind === 'file' && (
+                    <button
+                      onClick={loadScenarioFile}
+                      className={`px-4 py-2 rounded-lg text-sm ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}
+                    >
+                      Open
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {scenarioStatus && <div className="text-sm text-gray-600 dark:text-gray-400 mb-4">{scenarioStatus}</div>}
+
+              <div className="space-y-3">
+                {scenarios.map(scenario => (
+                  <div key={scenario.id} className={`p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                    <div className="font-medium mb-2">{scenario.name}</div>
+                    <div className="flex flex-wrap gap-2">
+                      {scenario.versions.map(version => {
+                        const compared = comparedVersions.includes(`${scenario.id}@${version.version}`);
+                        return (
+                          <div key={version.version} className={`flex items-center gap-2 px-2 py-1 rounded-lg border text-sm ${compared ? 'border-blue-500' : darkMode ? 'border-gray-600' : 'border-gray-300'}`}>
+                            <label className="flex items-center gap-1 cursor-pointer">
+                              <input type="checkbox" checked={compared} onChange={() => toggleCompared(scenario, version)} />
+                              v{version.version} · {new Date(version.savedAt).toLocaleString()}
+                            </label>
+                            <button onClick={() => restoreScenario(scenario, version)} className="text-blue-600 hover:underline">Restore</button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+                {scenarios.length === 0 && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">No saved scenarios yet. Name the current inputs and save them; saving again under the same name adds a new version.</p>
+                )}
+              </div>
+            </div>
+
+            {/* Scenario Comparison */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Comparison</h2>
+
+              {comparison.length < 2 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">Tick 2 to {MAX_COMPARED_SCENARIOS} scenario versions above to compare them side by side.</p>
+              ) : (
+                <div className="space-y-8">
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left">
+                          <th className="p-2" />
+                          {comparison.map((item, i) => (
+                            <th key={item.key} className="p-2 font-medium" style={{ color: SCENARIO_COLORS[i] }}>{item.label}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[
+                          { label: 'Risk profile', value: (item) => (item.inputs.riskTolerance === 'scored' ? item.inputs.riskAssessment?.profile.name : item.inputs.riskTolerance) },
+                          { label: 'Investment', value: (item) => formatDollars(item.inputs.investmentAmount) },
+                          { label: 'Horizon', value: (item) => `${item.inputs.timeHorizon} years` },
+                          ...ASSET_CLASSES.map(asset => ({
+                            label: asset.charAt(0).toUpperCase() + asset.slice(1),
+                            value: (item) => `${item.currentAllocation[asset]}% → ${item.allocation[asset]}%`
+                          })),
+                          { label: 'Expected return', value: (item) => `${(item.metrics.optimized.expectedReturn * 100).toFixed(1)}%` },
+                          { label: 'Risk', value: (item) => `${(item.metrics.optimized.risk * 100).toFixed(1)}%` },
+                          { label: 'Sharpe ratio', value: (item) => item.metrics.optimized.sharpeRatio.toFixed(2) },
+                          { label: 'Assumptions', value: (item) => item.metrics.optimized.assumptionSet || 'Not recorded' },
+                          { label: 'Projected value', value: (item) => formatDollars(item.projection[item.projection.length - 1].value) }
+                        ].map(row => (
+                          <tr key={row.label} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                            <td className="p-2 font-medium">{row.label}</td>
+                            {comparison.map(item => <td key={item.key} className="p-2 capitalize">{row.value(item)}</td>)}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="grid lg:grid-cols-2 gap-8">
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={ASSET_CLASSES.map(asset => ({
+                          asset: asset.charAt(0).toUpperCase() + asset.slice(1),
+                          ...Object.fromEntries(comparison.map(item => [item.key, item.allocation[asset]]))
+                        }))}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="asset" />
+                          <YAxis unit="%" />
+                          <Tooltip formatter={(value) => `${value}%`} />
+                          <Legend />
+                          {comparison.map((item, i) => (
+                            <Bar key={item.key} dataKey={item.key} name={item.label} fill={SCENARIO_COLORS[i]} />
+                          ))}
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={Array.from({ length: Math.max(...comparison.map(item => item.projection.length)) }, (_, year) => ({
+                          year,
+                          ...Object.fromEntries(comparison.map(item => [item.key, item.projection[year]?.value]))
+                        }))}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="year" />
+                          <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                          <Tooltip formatter={(value) => formatDollars(value)} />
+                          <Legend />
+                          {comparison.map((item, i) => (
+                            <Line key={item.key} type="monotone" dataKey={item.key} name={item.label} stroke={SCENARIO_COLORS[i]} strokeWidth={2} dot={false} />
+                          ))}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'recommendations' && (
+          <div className="space-y-8">
+            {/* Asset Recommendations */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-1">Recommended Assets</h2>
+              <p className="text-xs text-gray-500 mb-6">Expected returns and risk based on {assumptionsLabel}</p>
+              
+              <div className="grid md:grid-cols-3 gap-6">
+                {Object.entries(assetData).map(([category, assets]) => (
+                  <div key={category}>
+                    <h3 className="text-lg font-medium mb-4 capitalize">{category}</h3>
+                    <div className="space-y-3">
+                      {assets.map(asset => (
+                        <div key={asset.symbol} className={`p-4 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
+                          <div className="flex justify-between items-start mb-2">
+                            <div>
+                              <div className="font-medium">{asset.symbol}</div>
+                              <div className="text-sm text-gray-600 dark:text-gray-400">{asset.name}</div>
+                            </div>
+                            <div className="text-right">
+                              <div className="text-sm text-green-600">{(asset.expectedReturn * 100).toFixed(1)}%</div>
+                              <div className="text-xs text-gray-500">Expected Return</div>
+                            </div>
+                          </div>
+                          <div className="flex justify-between text-sm">
+                            <span>Risk: {(asset.risk * 100).toFixed(1)}%</span>
+                            <span className="text-blue-600">{asset.category}</span>
+                          </div>
+                          <div className="text-xs text-gray-500 mt-1">Expense ratio: {(asset.expenseRatio * 100).toFixed(2)}%</div>
+                          <div className="mt-2 text-sm font-semibold">
+                            {(securitySelection.holdings.find(holding => holding.symbol === asset.symbol)?.weight ?? 0).toFixed(1)}% of portfolio
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Security Allocation */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-1">Security Allocation</h2>
+              <p className="text-xs text-gray-500 mb-6">
+                {universe === 'securities'
+                  ? 'Fund weights chosen directly by the security-level optimizer; the selection rules below apply when optimizing asset classes.'
+                  : 'Each asset-class weight is split across its funds for the selected risk profile, within the rules below.'}
+              </p>
+
+              <div className="grid md:grid-cols-2 gap-6 mb-6">
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    {INTERNATIONAL_CATEGORY} share of stocks: {Math.round(selectionPolicy.internationalShare * 100)}%
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="5"
+                    value={selectionPolicy.internationalShare * 100}
+                    onChange={(e) => setSelectionPolicy(prev => ({ ...prev, internationalShare: Number(e.target.value) / 100 }))}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-gray-500">Home bias: the rest of the stock allocation stays in domestic funds.</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Category Caps (% of asset class)</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {fundCategories.map(category => (
+                      <label key={category} className="flex items-center justify-between gap-2 text-sm">
+                        <span>{category}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="5"
+                          value={category in selectionPolicy.categoryCaps ? Math.round(selectionPolicy.categoryCaps[category] * 100) : ''}
+                          placeholder="None"
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            setSelectionPolicy(prev => {
+                              const categoryCaps = { ...prev.categoryCaps };
+                              if (value === '') delete categoryCaps[category];
+                              else categoryCaps[category] = Math.min(100, Math.max(0, Number(value))) / 100;
+                              return { ...prev, categoryCaps };
+                            });
+                          }}
+                          className={`w-20 p-1 rounded border text-right ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="p-2 font-medium">Symbol</th>
+                    <th className="p-2 font-medium">Asset Class</th>
+                    <th className="p-2 font-medium">Category</th>
+                    <th className="p-2 font-medium text-right">Weight</th>
+                    <th className="p-2 font-medium text-right">Of Class</th>
+                    <th className="p-2 font-medium text-right">Return</th>
+                    <th className="p-2 font-medium text-right">Risk</th>
+                    <th className="p-2 font-medium text-right">Expenses</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {securitySelection.holdings.map(holding => (
+                    <tr key={holding.symbol} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                      <td className="p-2 font-medium" title={holding.name}>{holding.symbol}</td>
+                      <td className="p-2 capitalize">{holding.assetClass}</td>
+                      <td className="p-2">{holding.category}</td>
+                      <td className="p-2 text-right font-semibold">{holding.weight.toFixed(1)}%</td>
+                      <td className="p-2 text-right">{(holding.classShare * 100).toFixed(0)}%</td>
+                      <td className="p-2 text-right">{(holding.expectedReturn * 100).toFixed(1)}%</td>
+                      <td className="p-2 text-right">{(holding.risk * 100).toFixed(1)}%</td>
+                      <td className="p-2 text-right">{(holding.expenseRatio * 100).toFixed(2)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="mt-4 grid grid-cols-3 gap-4">
+                {[
+                  ['Expected Return', `${(securitySelection.metrics.expectedReturn * 100).toFixed(1)}%`, 'text-green-600'],
+                  ['Risk', `${(securitySelection.metrics.risk * 100).toFixed(1)}%`, 'text-orange-600'],
+                  ['Sharpe Ratio', securitySelection.metrics.sharpeRatio.toFixed(2), 'text-purple-600']
+                ].map(([label, value, color]) => (
+                  <div key={label} className={`p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">{label}</div>
+                    <div className={`text-lg font-bold ${color}`}>{value}</div>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500">Blended fund-level metrics based on {securitySelection.metrics.assumptionSet}</p>
+
+              {securitySelection.notes.map(note => (
+                <div key={note} className="mt-2 flex items-center gap-2 text-sm text-orange-600">
+                  <Info className="w-4 h-4" />
+                  {note}
+                </div>
+              ))}
+
+              <h3 className="text-lg font-medium mt-8 mb-4">Custom Securities</h3>
+              {customSecurities.length > 0 && (
+                <div className="space-y-2 mb-4">
+                  {customSecurities.map(security => (
+                    <div key={security.symbol} className={`flex justify-between items-center p-2 rounded ${darkMode ? 'bg-gray-700' : 'bg-gray-100'} text-sm`}>
+                      <span>
+                        <span className="font-medium">{security.symbol}</span> {security.name} · <span className="capitalize">{security.assetClass}</span> · {security.category} ·
+                        {' '}{(security.expectedReturn * 100).toFixed(1)}% return, {(security.risk * 100).toFixed(1)}% risk, {(security.expenseRatio * 100).toFixed(2)}% expenses
+                      </span>
+                      <button onClick={() => removeCustomSecurity(security.symbol)} className="text-red-600 hover:underline">Remove</button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                {[
+                  ['symbol', 'Symbol', 'text'],
+                  ['name', 'Name', 'text'],
+                  ['category', 'Category', 'text'],
+                  ['price', 'Price ($)', 'number'],
+                  ['expectedReturn', 'Expected Return (%)', 'number'],
+                  ['risk', 'Risk (%)', 'number'],
+                  ['expenseRatio', 'Expense Ratio (%)', 'number']
+                ].map(([field, label, type]) => (
+                  <label key={field} className="block">
+                    <span className="block text-xs text-gray-500 mb-1">{label}</span>
+                    <input
+                      type={type}
+                      value={newSecurity[field]}
+                      onChange={(e) => setNewSecurity(prev => ({ ...prev, [field]: type === 'number' ? Number(e.target.value) : e.target.value }))}
+                      className={`w-full p-1 rounded border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    />
+                  </label>
+                ))}
+                <label className="block">
+                  <span className="block text-xs text-gray-500 mb-1">Asset Class</span>
+                  <select
+                    value={newSecurity.assetClass}
+                    onChange={(e) => setNewSecurity(prev => ({ ...prev, assetClass: e.target.value }))}
+                    className={`w-full p-1 rounded border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  >
+                    <option value="stocks">Stocks</option>
+                    <option value="bonds">Bonds</option>
+                    <option value="alternatives">Alternatives</option>
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="block text-xs text-gray-500 mb-1">Tax Efficiency</span>
+                  <select
+                    value={newSecurity.taxEfficiency}
+                    onChange={(e) => setNewSecurity(prev => ({ ...prev, taxEfficiency: e.target.value }))}
+                    className={`w-full p-1 rounded border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                  >
+                    <option value="efficient">Efficient</option>
+                    <option value="inefficient">Inefficient</option>
+                    <option value="exempt">Tax-exempt</option>
+                  </select>
+                </label>
+              </div>
+              <button
+                onClick={addCustomSecurity}
+                className={`mt-4 px-4 py-2 rounded-lg text-sm text-white ${darkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} transition-colors`}
+              >
+                Add Security
+              </button>
+              {newSecurityErrors.map(error => (
+                <div key={error} className="mt-2 flex items-center gap-2 text-sm text-red-600">
+                  <AlertTriangle className="w-4 h-4" />
+                  {error}
+                </div>
+              ))}
+            </div>
+
             {/* Rebalancing Strategy */}
             <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
               <h2 className="text-xl font-semibold mb-6">Rebalancing Strategy</h2>
@@ -469,20 +3151,363 @@ const PortfolioOptimizer = () => {
                   <h3 className="text-lg font-medium mb-4">Implementation Timeline</h3>
                   <div className="space-y-3">
                     <div className={`p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
-                      <div className="font-medium">Phase 1: Immediate (0-30 days)</div>
-                      <div className="text-sm text-gray-600 dark:text-gray-400">Reduce overweight positions and increase cash for reallocation</div>
+                      <div className="font-medium">Now: Initial rebalance</div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">
+                        {(initialTurnover * 100).toFixed(1)}% turnover ({formatDollars(initialTurnover * tradeList.totalValue)} traded),
+                        about {formatDollars(initialTurnover * tradeList.totalValue * rebalancePolicy.costBps / 10000)} in trading costs
+                      </div>
                     </div>
+
+                    {rebalanceSchedule.events.slice(0, 6).map(event => (
+                      <div key={event.month} className={`p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                        <div className="font-medium">Year {Math.ceil(event.month / 12)}, month {((event.month - 1) % 12) + 1}: Rebalance</div>
+                        <div className="text-sm text-gray-600 dark:text-gray-400">
+                          Largest drift {(event.maxDrift * 100).toFixed(1)}%, {(event.turnover * 100).toFixed(1)}% turnover
+                        </div>
+                      </div>
+                    ))}
+
                     <div className={`p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
-                      <div className="font-medium">Phase 2: Short-term (1-3 months)</div>
-                      <div className="text-sm text-gray-600 dark:text-gray-400">Gradually build positions in underweight asset classes</div>
+                      <div className="font-medium">
+                        {rebalanceSchedule.events.length > 6
+                          ? `Then ${rebalanceSchedule.events.length - 6} more rebalances through year ${timeHorizon}`
+                          : rebalanceSchedule.events.length === 0
+                            ? `No rebalances triggered over ${timeHorizon} years in this scenario`
+                            : `Through year ${timeHorizon}`}
+                      </div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">
+                        Across 200 simulated paths: {rebalanceSchedule.rebalancesPerYear.toFixed(1)} rebalances per year,
+                        {' '}{(rebalanceSchedule.annualTurnover * 100).toFixed(1)}% annual turnover,
+                        {' '}{(rebalanceSchedule.annualCostDrag * 10000).toFixed(1)} bps annual cost drag
+                      </div>
                     </div>
-                    <div className={`p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
-                      <div className="font-medium">Phase 3: Ongoing</div>
-                      <div className="text-sm text-gray-600 dark:text-gray-400">Quarterly rebalancing to maintain target allocation</div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Trade List */}
+              <div className="mt-8">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-medium">Trade List</h3>
+                  <button
+                    onClick={() => downloadFile('trade-list.csv', tradesToCsv(executionTrades.trades), 'text/csv')}
+                    disabled={executionTrades.trades.length === 0}
+                    className={`px-4 py-2 rounded-lg text-sm flex items-center gap-2 ${darkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white transition-colors disabled:opacity-50`}
+                  >
+                    <Download className="w-4 h-4" />
+                    Export CSV
+                  </button>
+                </div>
+
+                <div className="grid md:grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Minimum Trade ($)</label>
+                    <input
+                      type="number"
+                      value={minTradeSize}
+                      onChange={(e) => setMinTradeSize(Math.max(0, Number(e.target.value)))}
+                      className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                      min="0"
+                      step="50"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Cash Buffer (%)</label>
+                    <input
+                      type="number"
+                      value={cashBuffer}
+                      onChange={(e) => setCashBuffer(Math.max(0, Math.min(100, Number(e.target.value))))}
+                      className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                      min="0"
+                      max="100"
+                      step="0.5"
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    <label className="flex items-center gap-2 text-sm font-medium pb-2">
+                      <input
+                        type="checkbox"
+                        checked={wholeShares}
+                        onChange={(e) => setWholeShares(e.target.checked)}
+                      />
+                      Whole shares only
+                    </label>
+                  </div>
+                </div>
+
+                <div className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                  Against {portfolioSource === 'holdings' ? 'imported holdings' : 'the investment amount'} of {formatDollars(tradeList.totalValue)}.
+                  {householdPlan && ' Trades are listed by account, as placed in the household plan.'}
+                  {' '}Cash after trades: {formatDollars(executionTrades.cashAfter)}.
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left">
+                        {[...(householdPlan ? ['Account'] : []), 'Action', 'Symbol', 'Class', 'Shares', 'Price ($)', 'Amount'].map(heading => (
+                          <th key={heading} className="p-2 font-medium">{heading}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {executionTrades.trades.map(trade => (
+                        <tr key={`${trade.account ?? ''}-${trade.symbol}`} className={darkMode ? 'border-t border-gray-700' : 'border-t border-gray-200'}>
+                          {householdPlan && <td className="p-2">{trade.account || 'Unnamed account'}</td>}
+                          <td className={`p-2 font-bold ${trade.action === 'BUY' ? 'text-green-600' : 'text-red-600'}`}>{trade.action}</td>
+                          <td className="p-2 font-medium">{trade.symbol}</td>
+                          <td className="p-2 capitalize">{trade.assetClass}</td>
+                          <td className="p-2">{trade.shares.toLocaleString()}</td>
+                          <td className="p-2">
+                            <input
+                              type="number"
+                              value={tradeList.prices[trade.symbol]}
+                              onChange={(e) => setPriceOverrides(prev => ({ ...prev, [trade.symbol]: Number(e.target.value) }))}
+                              className={`w-24 p-1 rounded border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                              min="0"
+                              step="0.01"
+                              aria-label={`${trade.symbol} price`}
+                            />
+                          </td>
+                          <td className="p-2">{formatDollars(trade.amount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {executionTrades.trades.length === 0 && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">No trades needed at the current settings.</p>
+                )}
+
+                {executionTrades.skipped.length > 0 && (
+                  <div className="mt-4 text-sm text-gray-500">
+                    Not traded: {executionTrades.skipped.map(item => `${item.account !== undefined ? `${item.account || 'Unnamed account'} ` : ''}${item.symbol} (${formatDollars(Math.abs(item.amount))}, ${item.reason})`).join(', ')}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Actions by Account */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-1">Actions by Account</h2>
+              <p className="text-xs text-gray-500 mb-6">
+                The household target is placed across the accounts: tax-inefficient funds in tax-deferred accounts, tax-exempt funds in taxable ones,
+                within each account's restrictions. Money does not move between accounts.
+              </p>
+
+              {!householdPlan ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Enter holdings with their accounts on the Portfolio Input tab to place the household target and list trades per account.
+                </p>
+              ) : (
+                <>
+                  {householdPlan.notes.length > 0 && (
+                    <div className="mb-6 space-y-1 text-sm text-orange-600">
+                      {householdPlan.notes.map(note => (
+                        <div key={note} className="flex items-center gap-2">
+                          <AlertTriangle className="w-4 h-4" />
+                          {note}
+                        </div>
+                      ))}
                     </div>
+                  )}
+
+                  <div className="grid md:grid-cols-2 gap-6">
+                    {householdPlan.accounts.map((item, k) => {
+                      const accountTrades = householdPlan.trades[k];
+                      return (
+                        <div key={item.account.name} className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                          <div className="flex justify-between items-center">
+                            <span className="font-medium">{item.account.name || 'Unnamed account'}{item.account.owner && ` · ${item.account.owner}`}</span>
+                            <span className="text-sm">{formatDollars(item.totalValue)}</span>
+                          </div>
+                          <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                            {ACCOUNT_TYPES.find(type => type.id === item.account.type).label} · Target{' '}
+                            {ASSET_CLASSES.filter(asset => item.allocation[asset] > 0)
+                              .map(asset => `${asset.charAt(0).toUpperCase() + asset.slice(1)} ${item.allocation[asset]}%`).join(' · ')}
+                          </div>
+                          <table className="w-full text-sm mt-3">
+                            <tbody>
+                              {accountTrades.trades.map(trade => (
+                                <tr key={trade.symbol} className={darkMode ? 'border-t border-gray-600' : 'border-t border-gray-200'}>
+                                  <td className={`p-2 font-bold ${trade.action === 'BUY' ? 'text-green-600' : 'text-red-600'}`}>{trade.action}</td>
+                                  <td className="p-2 font-medium">{trade.symbol}</td>
+                                  <td className="p-2">{trade.shares.toLocaleString()} sh</td>
+                                  <td className="p-2 text-right">{formatDollars(trade.amount)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {accountTrades.trades.length === 0 && (
+                            <p className="text-sm text-gray-600 dark:text-gray-400">No trades needed.</p>
+                          )}
+                          <div className="mt-2 text-xs text-gray-500">
+                            Cash after trades: {formatDollars(accountTrades.cashAfter)}
+                            {accountTrades.skipped.length > 0 && ` · Not traded: ${accountTrades.skipped.map(skip => `${skip.symbol} (${skip.reason})`).join(', ')}`}
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
+                </>
+              )}
+            </div>
+
+            {/* Tax-Aware Execution */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <h2 className="text-xl font-semibold mb-6">Tax-Aware Execution</h2>
+
+              {!taxPlan ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Enter holdings on the Portfolio Input tab to choose tax lots, place purchases by account and estimate capital gains.
+                </p>
+              ) : (
+                <>
+                  <div className="grid md:grid-cols-4 gap-4 mb-6">
+                    <div className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">Short-Term Gains</div>
+                      <div className={`text-xl font-bold ${taxPlan.gains.shortTerm < 0 ? 'text-green-600' : 'text-red-600'}`}>{formatDollars(taxPlan.gains.shortTerm)}</div>
+                    </div>
+                    <div className={`p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">Long-Term Gains</div>
+                      <div className={`text-xl font-bold ${taxPlan.gains.longTerm < 0 ? 'text-green-600' : 'text-orange-600'}`}>{formatDollars(taxPlan.gains.longTerm)}</div>
+                    </div>
+                    {['shortTerm', 'longTerm'].map(key => (
+                      <div key={key}>
+                        <label className="block text-sm font-medium mb-2">{key === 'shortTerm' ? 'Short-Term' : 'Long-Term'} Rate (%)</label>
+                        <input
+                          type="number"
+                          value={taxRates[key]}
+                          onChange={(e) => setTaxRates(prev => ({ ...prev, [key]: Math.max(0, Math.min(100, Number(e.target.value))) }))}
+                          className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                          min="0"
+                          max="100"
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="text-sm mb-6">
+                    Estimated tax on proposed sales: <span className="font-bold">{formatDollars(taxPlan.estimatedTax)}</span>
+                    <span className="text-gray-500"> (undated lots are treated as short-term)</span>
+                  </div>
+
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <div>
+                      <h3 className="text-lg font-medium mb-4">Lots to Sell</h3>
+                      <div className="space-y-3">
+                        {taxPlan.sales.map((sale, i) => (
+                          <div key={i} className={`p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                            <div className="flex justify-between items-center">
+                              <span className="font-medium">{sale.symbol} · {sale.shares.toLocaleString()} sh</span>
+                              <span className={sale.gain < 0 ? 'text-green-600' : sale.gain > 0 ? 'text-red-600' : 'text-gray-600'}>
+                                {sale.accountType === 'taxable' ? `${sale.gain < 0 ? 'Loss' : 'Gain'} ${formatDollars(Math.abs(sale.gain))}` : 'No tax'}
+                              </span>
+                            </div>
+                            <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                              {sale.account || 'Unnamed account'} · {ACCOUNT_TYPES.find(type => type.id === sale.accountType).label}
+                              {sale.accountType === 'taxable' && ` · ${sale.term === 'long' ? 'Long-term' : sale.term === 'short' ? 'Short-term' : 'Undated'}`}
+                            </div>
+                          </div>
+                        ))}
+                        {taxPlan.sales.length === 0 && <p className="text-sm text-gray-600 dark:text-gray-400">No sales proposed.</p>}
+                        {taxPlan.unfilledSales.map(item => (
+                          <div key={`${item.account ?? ''}-${item.symbol}`} className="flex items-center gap-2 text-sm text-orange-600">
+                            <AlertTriangle className="w-4 h-4" />
+                            {item.shares.toLocaleString()} {item.symbol} shares to sell{item.account !== undefined && ` in ${item.account || 'an unnamed account'}`} are not covered by any lot
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <h3 className="text-lg font-medium mb-4">Purchases by Account</h3>
+                      <div className="space-y-3">
+                        {taxPlan.purchases.map((purchase, i) => (
+                          <div key={i} className={`p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                            <div className="flex justify-between items-center">
+                              <span className="font-medium">{purchase.symbol} · {purchase.shares.toLocaleString()} sh</span>
+                              <span className="text-green-600">{formatDollars(purchase.amount)}</span>
+                            </div>
+                            <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                              {purchase.account || 'Unnamed account'} · {ACCOUNT_TYPES.find(type => type.id === purchase.accountType).label}
+                            </div>
+                          </div>
+                        ))}
+                        {taxPlan.purchases.length === 0 && <p className="text-sm text-gray-600 dark:text-gray-400">No purchases proposed.</p>}
+                        {taxPlan.unplaced.map(item => (
+                          <div key={`${item.account ?? ''}-${item.symbol}`} className="flex items-center gap-2 text-sm text-orange-600">
+                            <AlertTriangle className="w-4 h-4" />
+                            {formatDollars(item.amount)} of {item.symbol} needs more cash than {item.account || 'its account'} has after sales
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+
+                  {taxPlan.locationWarnings.length > 0 && (
+                    <div className="mt-6 space-y-1 text-sm text-orange-600">
+                      {taxPlan.locationWarnings.map(warning => (
+                        <div key={`${warning.symbol}-${warning.account}`} className="flex items-center gap-2">
+                          <Info className="w-4 h-4" />
+                          {warning.symbol} is held in {warning.account || 'an unnamed account'} ({ACCOUNT_TYPES.find(type => type.id === warning.accountType).label}), the least tax-efficient place for it
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            {/* Client Report */}
+            <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-semibold">Client Report</h2>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => downloadFile(`proposal${reportSettings.clientName ? `-${reportSettings.clientName.replace(/\s+/g, '-').toLowerCase()}` : ''}.html`, buildReport(), 'text/html')}
+                    className={`px-4 py-2 rounded-lg text-sm flex items-center gap-2 ${darkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'} transition-colors`}
+                  >
+                    <Download className="w-4 h-4" />
+                    Download HTML
+                  </button>
+                  <button
+                    onClick={printReport}
+                    className={`px-4 py-2 rounded-lg text-sm flex items-center gap-2 ${darkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white transition-colors`}
+                  >
+                    <Printer className="w-4 h-4" />
+                    Print / Save as PDF
+                  </button>
                 </div>
               </div>
+
+              <div className="grid md:grid-cols-2 gap-4 mb-4">
+                {[
+                  { key: 'firmName', label: 'Firm Name' },
+                  { key: 'firmContact', label: 'Firm Address / Contact' },
+                  { key: 'advisorName', label: 'Advisor' },
+                  { key: 'clientName', label: 'Client' }
+                ].map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium mb-2">{label}</label>
+                    <input
+                      value={reportSettings[key]}
+                      onChange={(e) => setReportSettings(prev => ({ ...prev, [key]: e.target.value }))}
+                      className={`w-full p-2 rounded-lg border ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <label className="block text-sm font-medium mb-2">Disclosures</label>
+              <textarea
+                value={reportSettings.disclosures}
+                onChange={(e) => setReportSettings(prev => ({ ...prev, disclosures: e.target.value }))}
+                rows={6}
+                className={`w-full p-2 rounded-lg border text-sm ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}`}
+              />
+              <p className="text-xs text-gray-500 mt-2">The report is a single self-contained HTML file with inline charts, so it opens and prints without a network connection.</p>
             </div>
           </div>
         )}